@@ -2,15 +2,21 @@ import { useState, useEffect } from 'react';
 import { Layout, TabContent } from './components/Layout';
 import { ChatInterface } from './components/ChatInterface';
 import { SettingsPanel } from './components/SettingsPanel';
+import { UsagePanel } from './components/UsagePanel';
+import { HistoryDrawer } from './components/HistoryDrawer';
 import type { TabType } from './components/Layout';
 import { MessagesProvider } from './services/MessageContext';
 import { AIConfigProvider } from './services/AIConfigContext';
 import { useMessagesDispatch } from './services/messageHooks';
-import { type MessageSource } from './services/messageTypes';
+import { type MessageSource, type PageNote } from './services/messageTypes';
 
 // 内部组件，处理消息监听逻辑
 function AppContent() {
   const [showSettings, setShowSettings] = useState<boolean>(false);
+  const [showUsage, setShowUsage] = useState<boolean>(false);
+  const [showHistory, setShowHistory] = useState<boolean>(false);
+  // 页面上当前打开的笔记，页面切换笔记时由 content script 通知
+  const [pageNote, setPageNote] = useState<PageNote | null>(null);
 
   const messageDispatch = useMessagesDispatch();
 
@@ -32,7 +38,10 @@ function AppContent() {
               messageSource: 'post',
               sender: 'user',
               timestamp: new Date(message.data.timestamp),
-              collectedData: message.data.content,
+              collectedData: {
+                ...message.data.content,
+                url: message.data.url,
+              },
             },
           });
         }
@@ -47,11 +56,37 @@ function AppContent() {
               messageSource: 'comment',
               sender: 'user',
               timestamp: new Date(message.data.timestamp),
-              collectedData: message.data.content,
+              collectedData: {
+                ...message.data.content,
+                url: message.data.url,
+              },
             },
           });
         }
         sendResponse({ success: true });
+      } else if (message.action === 'replyContentReceived') {
+        console.log('收到reply内容收集:', message.data);
+        if (messageDispatch) {
+          messageDispatch({
+            type: 'clearAdd',
+            data: {
+              id: message.data.timestamp,
+              type: 'collected',
+              messageSource: 'reply',
+              sender: 'user',
+              timestamp: new Date(message.data.timestamp),
+              collectedData: {
+                ...message.data.content,
+                url: message.data.url,
+              },
+            },
+          });
+        }
+        sendResponse({ success: true });
+      } else if (message.action === 'noteChangedReceived') {
+        console.log('页面切换了笔记:', message.data);
+        setPageNote(message.data);
+        sendResponse({ success: true });
       }
     };
 
@@ -67,9 +102,20 @@ function AppContent() {
   }, [messageDispatch]);
 
   return (
-    <Layout onSettingsClick={() => setShowSettings(true)}>
-      <ChatInterface />
+    <Layout
+      onSettingsClick={() => setShowSettings(true)}
+      onUsageClick={() => setShowUsage(true)}
+      onHistoryClick={() => setShowHistory(true)}
+    >
+      <ChatInterface pageNote={pageNote} />
       {showSettings && <SettingsPanel onClose={() => setShowSettings(false)} />}
+      {showUsage && <UsagePanel onClose={() => setShowUsage(false)} />}
+      {showHistory && (
+        <HistoryDrawer
+          currentNoteId={pageNote?.noteId}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
     </Layout>
   );
 }
@@ -0,0 +1,152 @@
+import React, { useState, memo } from 'react';
+import type { AiGeneratedPostContent } from '../services/messageTypes';
+import { diffLines, type DiffLine } from '../utils/textDiff';
+
+// 可以选择是否应用的字段
+export type ApplyField = keyof AiGeneratedPostContent;
+
+const FIELD_LABELS: Record<ApplyField, string> = {
+  title: '标题',
+  content: '正文',
+};
+
+interface ApplyPreviewProps {
+  // 页面上当前的内容
+  current: AiGeneratedPostContent;
+  generated: AiGeneratedPostContent;
+  onConfirm: (fields: ApplyField[]) => void;
+  onClose: () => void;
+}
+
+// 应用到页面前对比页面当前内容和生成内容，并选择要应用的字段
+const ApplyPreviewComponent: React.FC<ApplyPreviewProps> = ({
+  current,
+  generated,
+  onConfirm,
+  onClose,
+}) => {
+  // 默认只勾选有变化的字段
+  const [selectedFields, setSelectedFields] = useState<ApplyField[]>(() =>
+    (Object.keys(FIELD_LABELS) as ApplyField[]).filter(
+      (field) => generated[field] && generated[field] !== current[field]
+    )
+  );
+
+  const toggleField = (field: ApplyField) => {
+    setSelectedFields((prev) =>
+      prev.includes(field)
+        ? prev.filter((item) => item !== field)
+        : [...prev, field]
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg w-full max-w-md max-h-[80vh] overflow-y-auto m-4 relative">
+        {/* Close button */}
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-neutral-500 hover:text-neutral-700 text-xl font-bold z-10"
+        >
+          ×
+        </button>
+
+        <div className="p-6">
+          <h3 className="text-lg font-semibold text-neutral-900 mb-1">
+            应用到页面
+          </h3>
+          <p className="text-micro text-neutral-500 mb-4">
+            左侧为页面当前内容，右侧为生成内容，勾选要覆盖的字段
+          </p>
+
+          {(Object.keys(FIELD_LABELS) as ApplyField[]).map((field) => {
+            const isUnchanged = current[field] === generated[field];
+            return (
+              <section key={field} className="mb-5">
+                <label className="flex items-center gap-2 mb-2 text-sm font-medium text-neutral-700">
+                  <input
+                    type="checkbox"
+                    checked={selectedFields.includes(field)}
+                    onChange={() => toggleField(field)}
+                    disabled={!generated[field] || isUnchanged}
+                    className="accent-xhs-red"
+                  />
+                  应用{FIELD_LABELS[field]}
+                  {isUnchanged && (
+                    <span className="text-micro font-normal text-neutral-500">
+                      （无变化）
+                    </span>
+                  )}
+                </label>
+                <DiffColumns
+                  lines={diffLines(current[field], generated[field])}
+                />
+              </section>
+            );
+          })}
+
+          {/* Action Buttons */}
+          <div className="flex gap-3 pt-4 border-neutral-200">
+            <button
+              onClick={() => onConfirm(selectedFields)}
+              disabled={selectedFields.length === 0}
+              className="flex-1 px-4 py-2.5 text-sm font-medium text-white bg-xhs-red rounded-lg hover:bg-xhs-red-hover disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              应用所选内容
+            </button>
+            <button
+              onClick={onClose}
+              className="px-4 py-2.5 text-sm font-medium text-neutral-700 bg-white border border-neutral-300 rounded-lg hover:bg-neutral-50 transition-colors"
+            >
+              取消
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// 左右两栏对比：左侧标出被删除的行，右侧标出新增的行
+const DiffColumns: React.FC<{ lines: DiffLine[] }> = ({ lines }) => {
+  const renderColumn = (title: string, hiddenType: DiffLine['type']) => {
+    const columnLines = lines.filter((line) => line.type !== hiddenType);
+    return (
+      <div className="min-w-0 rounded border border-neutral-200">
+        <div className="px-2 py-1 text-micro text-neutral-500 bg-neutral-50 border-b border-neutral-200">
+          {title}
+        </div>
+        <div className="max-h-48 overflow-y-auto p-1 text-caption">
+          {columnLines.length === 0 ? (
+            <div className="px-1 text-neutral-400">（空）</div>
+          ) : (
+            columnLines.map((line, index) => (
+              <div
+                key={index}
+                className={`px-1 whitespace-pre-wrap break-words ${
+                  line.type === 'removed'
+                    ? 'bg-red-50 text-red-700'
+                    : line.type === 'added'
+                      ? 'bg-green-50 text-green-700'
+                      : 'text-neutral-700'
+                }`}
+              >
+                {line.text || ' '}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {renderColumn('页面当前', 'added')}
+      {renderColumn('生成内容', 'removed')}
+    </div>
+  );
+};
+
+// Export memoized component
+export const ApplyPreview = memo(ApplyPreviewComponent);
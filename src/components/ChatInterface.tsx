@@ -1,18 +1,52 @@
 import React, { useState, useEffect, useRef, memo, useCallback } from 'react';
 import {
-  AIService,
-  buildChatMessages,
   validateContentResponse,
+  validateVariantsResponse,
+  type PartialGeneratedContent,
 } from '../services/AIService';
+import { generateWithFallback } from '../services/aiFallback';
+import { PROVIDER_LABELS } from '../services/aiConfigTypes';
+import { formatCost } from '../services/usageLedger';
+import { DEFAULT_VARIANT_COUNTS, getOutputTask } from '../services/outputTasks';
+import {
+  recordWordingEdits,
+  type WordingEdit,
+} from '../services/wordingPreferences';
 import { useMessages, useMessagesDispatch } from '../services/messageHooks';
 import type {
+  AiGeneratedPostContent,
+  AiGeneratedCommentContent,
   ChatMessage,
   CollectedContent,
   MessageSource,
+  PageNote,
   UserMessage,
 } from '../services/messageTypes';
 import { batchCompressImages } from '../utils/imageUtils';
 import { useAIConfig } from '../services/aiConfigHooks';
+import {
+  getCommandColor,
+  getQuickCommands,
+  renderTemplate,
+} from '../services/promptTemplates';
+import {
+  COMPLIANCE_CATEGORY_LABELS,
+  buildComplianceRewritePrompt,
+  checkGeneratedContent,
+  formatReplacement,
+  getComplianceRules,
+  getDistinctRules,
+  getReportHits,
+  hasSevereHits,
+  type ComplianceHit,
+  type ComplianceReport,
+} from '../services/complianceRules';
+import {
+  findNoteConversations,
+  loadConversation,
+  type ConversationSummary,
+} from '../services/conversationHistory';
+import { ApplyPreview, type ApplyField } from './ApplyPreview';
 import aiAutoIcon from '../assets/aiAuto_icon.svg';
 import xhsCommentImg from '../assets/xhs-comment.png';
 import xhsPostImg from '../assets/xhs-post.png';
@@ -59,6 +93,93 @@ const RegenerateButton: React.FC<{
   );
 };
 
+// Stop Generation Button Component
+const StopButton: React.FC<{
+  onClick: () => void;
+  className?: string;
+}> = ({ onClick, className = '' }) => {
+  return (
+    <button
+      onClick={onClick}
+      className={`bg-white border border-neutral-300 hover:border-xhs-red text-neutral-600 hover:text-xhs-red px-3 py-1 rounded-full text-caption font-medium transition-colors ${className}`}
+      title="停止生成"
+    >
+      ⏹ 停止
+    </button>
+  );
+};
+
+// 标出命中的违禁词，悬停显示替换建议
+const HighlightedText: React.FC<{ text: string; hits: ComplianceHit[] }> = ({
+  text,
+  hits,
+}) => {
+  if (hits.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  hits.forEach((hit, index) => {
+    parts.push(text.slice(cursor, hit.start));
+    parts.push(
+      <mark
+        key={index}
+        className={`rounded-sm ${
+          hit.rule.severity === 'severe'
+            ? 'bg-red-100 text-red-700'
+            : 'bg-yellow-100 text-yellow-800'
+        }`}
+        title={`${COMPLIANCE_CATEGORY_LABELS[hit.rule.category]}，建议${formatReplacement(hit.rule)}`}
+      >
+        {hit.text}
+      </mark>
+    );
+    cursor = hit.end;
+  });
+  parts.push(text.slice(cursor));
+  return <>{parts}</>;
+};
+
+// 违禁词检查结果和替换建议
+const ComplianceNotice: React.FC<{
+  report: ComplianceReport;
+  onRewrite?: () => void;
+}> = ({ report, onRewrite }) => {
+  const hitCount = getReportHits(report).length;
+  if (hitCount === 0) return null;
+
+  const isSevere = hasSevereHits(report);
+  return (
+    <div
+      className={`mb-4 p-2 rounded-xl border text-caption ${
+        isSevere
+          ? 'bg-red-50 border-red-200 text-red-700'
+          : 'bg-yellow-50 border-yellow-200 text-yellow-800'
+      }`}
+    >
+      <p className="font-medium mb-1">⚠️ 发现 {hitCount} 处可能导致限流的词</p>
+      <ul className="space-y-0.5">
+        {getDistinctRules(report).map((rule) => (
+          <li key={rule.word}>
+            “{rule.word}” · {COMPLIANCE_CATEGORY_LABELS[rule.category]}
+            ，建议{formatReplacement(rule)}
+          </li>
+        ))}
+      </ul>
+      {onRewrite && (
+        <button
+          onClick={onRewrite}
+          className="mt-2 px-3 py-1 text-caption bg-white border border-current rounded-full hover:opacity-80 transition-opacity"
+        >
+          🛠 改写为合规版本
+        </button>
+      )}
+    </div>
+  );
+};
+
+// 收集的草稿正文只预览开头部分，只标出预览范围内的违禁词
+const CONTENT_PREVIEW_LENGTH = 150;
+
 // Collected Content Message Component
 const CollectedContentMessageForPost: React.FC<{
   collectedData: CollectedContent;
@@ -73,58 +194,17 @@ const CollectedContentMessageForPost: React.FC<{
     return () => clearTimeout(timer);
   }, []);
 
-  // Common commands for Xiaohongshu content creation
-  const commonCommands = [
-    {
-      id: 'optimize-notes',
-      icon: '🔥',
-      label: '优化笔记',
-      command:
-        '请基于当前的标题和内容进行全面的优化，包括优化标题让它更吸引人、丰富内容细节、添加合适的表情符号和话题标签，让整篇笔记更符合小红书的风格和传播效果',
-      color: 'text-xhs-red border-xhs-red hover:bg-xhs-red-light',
-    },
-    {
-      id: 'enhance-content',
-      icon: '📝',
-      label: '丰富内容',
-      command:
-        '请帮我丰富这个内容，增加更多细节描述、使用心得和实用建议，让内容更有价值',
-      color: 'text-green-600 border-green-600 hover:bg-green-50',
-    },
-    {
-      id: 'improve-title',
-      icon: '✨',
-      label: '优化标题',
-      command:
-        '请帮我优化这个标题，让它更吸引人、更有点击欲望，符合小红书的风格',
-      color: 'text-purple-600 border-purple-600 hover:bg-purple-50',
-    },
-    {
-      id: 'add-hashtags',
-      icon: '#️⃣',
-      label: '生成话题标签',
-      command:
-        '请为这篇内容生成5-8个合适的小红书话题标签，包括热门标签和精准标签',
-      color: 'text-blue-600 border-blue-600 hover:bg-blue-50',
-    },
-    {
-      id: 'add-emoji',
-      icon: '😊',
-      label: '添加表情符号',
-      command: '请在内容中适当添加表情符号，让文案更生动活泼，符合小红书的风格',
-      color: 'text-orange-600 border-orange-600 hover:bg-orange-50',
-    },
-    {
-      id: 'seo-optimize',
-      icon: '🔍',
-      label: 'SEO优化',
-      command: '请优化这个内容的关键词分布，提高在小红书搜索中的曝光率',
-      color: 'text-teal-600 border-teal-600 hover:bg-teal-50',
-    },
-  ];
+  const aiConfig = useAIConfig();
+  const commonCommands = getQuickCommands(aiConfig.promptTemplates, 'post');
+  // 检查收集的草稿中的违禁词
+  const draftReport = checkGeneratedContent(
+    collectedData,
+    getComplianceRules(aiConfig.complianceRules)
+  );
 
+  // 指令中的变量替换为收集到的内容
   const handleCommandClick = (command: string) => {
-    onCommandClickForPost?.(command);
+    onCommandClickForPost?.(renderTemplate(command, collectedData));
   };
 
   return (
@@ -181,7 +261,10 @@ const CollectedContentMessageForPost: React.FC<{
                 </span>
               </div>
               <p className="text-sm text-neutral-900 ml-6">
-                {collectedData.title}
+                <HighlightedText
+                  text={collectedData.title}
+                  hits={draftReport.title}
+                />
               </p>
             </div>
           )}
@@ -196,23 +279,45 @@ const CollectedContentMessageForPost: React.FC<{
                 </span>
               </div>
               <p className="text-sm text-neutral-900 ml-6 line-clamp-3">
-                {collectedData.content.substring(0, 150)}
-                {collectedData.content.length > 150 ? '...' : ''}
+                <HighlightedText
+                  text={collectedData.content.substring(
+                    0,
+                    CONTENT_PREVIEW_LENGTH
+                  )}
+                  hits={draftReport.content.filter(
+                    (hit) => hit.end <= CONTENT_PREVIEW_LENGTH
+                  )}
+                />
+                {collectedData.content.length > CONTENT_PREVIEW_LENGTH
+                  ? '...'
+                  : ''}
               </p>
             </div>
           )}
 
+          <ComplianceNotice
+            report={draftReport}
+            onRewrite={
+              onCommandClickForPost &&
+              (() =>
+                onCommandClickForPost(
+                  buildComplianceRewritePrompt(draftReport, true)
+                ))
+            }
+          />
+
           {/* Quick Commands */}
           <div className="mt-4 pt-3 border-t border-neutral-200">
             <h4 className="text-caption font-medium text-neutral-700 mb-3">
               快速优化命令
             </h4>
             <div className="grid grid-cols-2 gap-2">
-              {commonCommands.map((cmd) => (
+              {commonCommands.map((cmd, index) => (
                 <button
                   key={cmd.id}
                   onClick={() => handleCommandClick(cmd.command)}
-                  className={`flex items-center gap-2 px-3 py-1 text-caption border-[0.5px] rounded-lg transition-colors ${cmd.color}`}
+                  disabled={!cmd.command.trim()}
+                  className={`flex items-center gap-2 px-3 py-1 text-caption border-[0.5px] rounded-lg transition-colors disabled:opacity-50 ${getCommandColor(cmd, index)}`}
                 >
                   <span className="text-sm">{cmd.icon}</span>
                   <span className="text-xs font-medium">{cmd.label}</span>
@@ -247,40 +352,17 @@ const CollectedContentMessageForComment: React.FC<{
     return () => clearTimeout(timer);
   }, []);
 
-  // Common commands for comment generation
-  const commonCommands = [
-    {
-      id: 'generate-comment',
-      icon: '💬',
-      label: '生成评论',
-      command: '请基于这篇笔记的图片和内容生成一条评论',
-      color: 'text-xhs-red border-xhs-red hover:bg-xhs-red-light',
-    },
-    {
-      id: 'ask-question',
-      icon: '❓',
-      label: '提问互动',
-      command: '请基于这篇笔记的图片和内容生成提问式的评论，促进与博主的互动',
-      color: 'text-blue-600 border-blue-600 hover:bg-blue-50',
-    },
-    {
-      id: 'praise-comment',
-      icon: '👏',
-      label: '夸赞评论',
-      command: '请基于这篇笔记的图片和内容生成一条夸赞评论',
-      color: 'text-purple-600 border-purple-600 hover:bg-purple-50',
-    },
-    {
-      id: 'emoji-comment',
-      icon: '😊',
-      label: '表情评论',
-      command: '请基于这篇笔记的图片和内容生成一条带有很多表情的评论',
-      color: 'text-teal-600 border-teal-600 hover:bg-teal-50',
-    },
-  ];
+  // 回复评论时使用回复专用的快捷指令
+  const aiConfig = useAIConfig();
+  const replyTarget = collectedData.replyTarget;
+  const commonCommands = getQuickCommands(
+    aiConfig.promptTemplates,
+    replyTarget ? 'reply' : 'comment'
+  );
 
+  // 指令中的变量替换为收集到的内容
   const handleCommandClick = (command: string) => {
-    onCommandClickForComment?.(command);
+    onCommandClickForComment?.(renderTemplate(command, collectedData));
   };
 
   return (
@@ -298,6 +380,14 @@ const CollectedContentMessageForComment: React.FC<{
           <span className="text-caption font-medium text-neutral-500">
             来自小红书的内容
           </span>
+          {collectedData.noteId && (
+            <span
+              className="text-micro text-neutral-400"
+              title={`笔记 ${collectedData.noteId}`}
+            >
+              #{collectedData.noteId.slice(-6)}
+            </span>
+          )}
           <span className="text-micro text-neutral-500 ml-auto">
             {timestamp.toLocaleTimeString()}
           </span>
@@ -309,9 +399,12 @@ const CollectedContentMessageForComment: React.FC<{
           {collectedData.images && collectedData.images.length > 0 && (
             <div className="mb-3">
               <div className="flex justify-start items-center gap-2 mb-2">
-                <span className="text-sm">📸</span>
+                <span className="text-sm">
+                  {collectedData.mediaType === 'video' ? '🎬' : '📸'}
+                </span>
                 <span className="text-caption font-semibold text-neutral-700">
-                  图片 ({collectedData.images.length})
+                  {collectedData.mediaType === 'video' ? '视频画面' : '图片'} (
+                  {collectedData.images.length})
                 </span>
               </div>
               <div className="flex flex-wrap justify-start items-center gap-2">
@@ -358,17 +451,116 @@ const CollectedContentMessageForComment: React.FC<{
             </div>
           )}
 
+          {/* Note metadata section */}
+          {collectedData.metadata && (
+            <div className="mb-3">
+              <div className="flex items-center gap-2 mb-1">
+                <span className="text-sm">ℹ️</span>
+                <span className="text-caption font-semibold text-neutral-700">
+                  笔记信息:
+                </span>
+              </div>
+              <div className="ml-6 text-caption text-neutral-700 space-y-1">
+                <p>
+                  {collectedData.metadata.author && (
+                    <span className="font-medium mr-2">
+                      @{collectedData.metadata.author}
+                    </span>
+                  )}
+                  <span className="text-neutral-500">
+                    {collectedData.metadata.publishTime}
+                    {collectedData.metadata.location &&
+                      ` · 📍${collectedData.metadata.location}`}
+                  </span>
+                </p>
+                <p className="text-neutral-500">
+                  ♡ {collectedData.metadata.likeCount} · ☆{' '}
+                  {collectedData.metadata.collectCount} · 💬{' '}
+                  {collectedData.metadata.commentCount}
+                </p>
+                {collectedData.metadata.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {collectedData.metadata.tags.map((tag) => (
+                      <span
+                        key={tag}
+                        className="text-micro text-blue-600 bg-blue-50 px-1.5 rounded-full"
+                      >
+                        #{tag}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Existing comments section */}
+          {collectedData.topComments &&
+            collectedData.topComments.length > 0 && (
+              <div className="mb-3">
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="text-sm">🗨️</span>
+                  <span className="text-caption font-semibold text-neutral-700">
+                    已有评论 ({collectedData.topComments.length}):
+                  </span>
+                </div>
+                <ul className="ml-6 max-h-32 overflow-y-auto space-y-1">
+                  {collectedData.topComments.map((comment, index) => (
+                    <li
+                      key={index}
+                      className="text-caption text-neutral-700 line-clamp-2"
+                    >
+                      {comment.isPinned && (
+                        <span className="text-xhs-red mr-1">[置顶]</span>
+                      )}
+                      {comment.isAuthor && (
+                        <span className="text-blue-600 mr-1">[作者]</span>
+                      )}
+                      <span className="font-medium">{comment.author}:</span>{' '}
+                      {comment.content}
+                      <span className="text-neutral-500 ml-1">
+                        ♡{comment.likeCount}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+          {/* Reply target section */}
+          {replyTarget && (
+            <div className="mb-3">
+              <div className="flex items-center gap-2 mb-1">
+                <span className="text-sm">💬</span>
+                <span className="text-caption font-semibold text-neutral-700">
+                  回复评论:
+                </span>
+              </div>
+              {replyTarget.parentComment && (
+                <p className="text-caption text-neutral-500 ml-6 mb-1 line-clamp-2">
+                  {replyTarget.parentComment.author}:{' '}
+                  {replyTarget.parentComment.content}
+                </p>
+              )}
+              <p className="text-sm text-neutral-900 ml-6 line-clamp-3">
+                <span className="font-medium">{replyTarget.author}:</span>{' '}
+                {replyTarget.content}
+              </p>
+            </div>
+          )}
+
           {/* Quick Commands */}
           <div className="mt-4 pt-3 border-t border-neutral-200">
             <h4 className="text-caption font-medium text-neutral-700 mb-3">
-              快速评论生成
+              {replyTarget ? '快速回复生成' : '快速评论生成'}
             </h4>
             <div className="grid grid-cols-2 gap-2">
-              {commonCommands.map((cmd) => (
+              {commonCommands.map((cmd, index) => (
                 <button
                   key={cmd.id}
                   onClick={() => handleCommandClick(cmd.command)}
-                  className={`flex items-center gap-2 px-3 py-1 text-caption border-[0.5px] rounded-lg transition-colors ${cmd.color}`}
+                  disabled={!cmd.command.trim()}
+                  className={`flex items-center gap-2 px-3 py-1 text-caption border-[0.5px] rounded-lg transition-colors disabled:opacity-50 ${getCommandColor(cmd, index)}`}
                 >
                   <span className="text-sm">{cmd.icon}</span>
                   <span className="text-xs font-medium">{cmd.label}</span>
@@ -389,13 +581,225 @@ const CollectedContentMessageForComment: React.FC<{
   );
 };
 
+// 按字符（而不是 UTF-16 编码单元）计算长度，表情符号算一个字
+const countCharacters = (text: string) => Array.from(text).length;
+
+// 字数统计，超出限制时标红
+const CharCounter: React.FC<{ length: number; maxLength?: number }> = ({
+  length,
+  maxLength,
+}) => (
+  <span
+    className={`text-micro ${
+      maxLength && length > maxLength ? 'text-red-600' : 'text-neutral-500'
+    }`}
+  >
+    {maxLength ? `${length}/${maxLength}` : length}
+  </span>
+);
+
+// 编辑生成结果，保存后作为消息的新版本
+const ResultEditor: React.FC<{
+  message: ChatMessage;
+  onSave: (edited: AiGeneratedPostContent | AiGeneratedCommentContent) => void;
+  onCancel: () => void;
+}> = ({ message, onSave, onCancel }) => {
+  const isPost = message.messageSource === 'post';
+  const [title, setTitle] = useState(message.generatedPostData?.title || '');
+  const [content, setContent] = useState(
+    (isPost
+      ? message.generatedPostData?.content
+      : message.generatedCommentData?.content) || ''
+  );
+
+  // 长度限制和生成时的 schema 保持一致
+  const { properties } = getOutputTask(message.messageSource).schema;
+  const titleMaxLength = properties.title?.maxLength;
+  const contentMaxLength = properties.content?.maxLength;
+  const titleLength = countCharacters(title);
+  const contentLength = countCharacters(content);
+  const isOverLimit =
+    (isPost && !!titleMaxLength && titleLength > titleMaxLength) ||
+    (!!contentMaxLength && contentLength > contentMaxLength);
+
+  return (
+    <div className="space-y-3">
+      {isPost && (
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-caption font-semibold text-neutral-700">
+              标题:
+            </span>
+            <CharCounter length={titleLength} maxLength={titleMaxLength} />
+          </div>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            className="w-full px-3 py-1.5 text-sm border border-neutral-300 rounded-lg focus:outline-none focus:border-xhs-red"
+          />
+        </div>
+      )}
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-caption font-semibold text-neutral-700">
+            {isPost
+              ? '内容:'
+              : message.messageSource === 'reply'
+                ? '回复:'
+                : '评论:'}
+          </span>
+          <CharCounter length={contentLength} maxLength={contentMaxLength} />
+        </div>
+        <textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          rows={isPost ? 10 : 4}
+          className="w-full px-3 py-1.5 text-sm leading-relaxed border border-neutral-300 rounded-lg resize-y focus:outline-none focus:border-xhs-red"
+        />
+      </div>
+      {isOverLimit && (
+        <p className="text-micro text-red-600">超出字数限制，请删减后再保存</p>
+      )}
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="px-3 py-1.5 text-caption text-neutral-700 bg-white border border-neutral-300 rounded-full hover:bg-neutral-50 transition-colors"
+        >
+          取消
+        </button>
+        <button
+          onClick={() => onSave(isPost ? { title, content } : { content })}
+          disabled={isOverLimit || !content.trim() || (isPost && !title.trim())}
+          className="px-3 py-1.5 text-caption text-white bg-xhs-red rounded-full hover:bg-xhs-red-hover disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          保存修改
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// 多个候选的对比，点选标题和正文，可以组合不同候选
+const VariantComparison: React.FC<{
+  message: ChatMessage;
+  onSelect?: (
+    selected: AiGeneratedPostContent | AiGeneratedCommentContent
+  ) => void;
+}> = ({ message, onSelect }) => {
+  const variants = message.generatedVariants;
+  if (!variants) return null;
+
+  const isPost = message.messageSource === 'post';
+  const selectedTitle = message.generatedPostData?.title;
+  const selectedContent = isPost
+    ? message.generatedPostData?.content
+    : message.generatedCommentData?.content;
+
+  const select = (field: 'title' | 'content', text: string) => {
+    if (!isPost) {
+      onSelect?.({ content: text });
+      return;
+    }
+    onSelect?.({
+      title: field === 'title' ? text : selectedTitle || '',
+      content: field === 'content' ? text : selectedContent || '',
+    });
+  };
+
+  const renderOptions = (
+    label: string,
+    field: 'title' | 'content',
+    options: string[],
+    selected?: string
+  ) => (
+    <div className="mb-4">
+      <span className="text-caption font-semibold text-neutral-700">
+        {label}:
+      </span>
+      <div className="mt-2 space-y-2">
+        {options.map((option, index) => (
+          <button
+            key={index}
+            onClick={() => select(field, option)}
+            className={`w-full flex gap-2 text-left rounded-xl py-1.5 px-3 border text-sm leading-relaxed transition-colors ${
+              option === selected
+                ? 'border-xhs-red bg-red-50'
+                : 'border-neutral-200 hover:border-neutral-300'
+            }`}
+          >
+            <span className="text-micro text-neutral-500 mt-0.5">
+              {String.fromCharCode(65 + index)}
+            </span>
+            <span
+              className={`flex-1 min-w-0 text-neutral-900 whitespace-pre-wrap break-words ${
+                field === 'content' && isPost ? 'max-h-40 overflow-y-auto' : ''
+              }`}
+            >
+              {option}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <>
+      <p className="text-micro text-neutral-500 mb-3">
+        {isPost
+          ? `${variants.titles.length} 个标题 × ${variants.contents.length} 个正文，点击选择，可以组合不同候选的标题和正文`
+          : `${variants.contents.length} 个候选，点击选择要使用的一个`}
+      </p>
+      {isPost &&
+        renderOptions('标题候选', 'title', variants.titles, selectedTitle)}
+      {renderOptions(
+        isPost
+          ? '正文候选'
+          : message.messageSource === 'reply'
+            ? '回复候选'
+            : '评论候选',
+        'content',
+        variants.contents,
+        selectedContent
+      )}
+    </>
+  );
+};
+
 // AI Result Display Component - Enhanced Xiaohongshu Style
 const AIResultDisplay: React.FC<{
   message: ChatMessage;
   onApply?: (messageId: string) => void;
   onRegenerate?: () => void;
+  onSaveEdit?: (
+    messageId: string,
+    edited: AiGeneratedPostContent | AiGeneratedCommentContent
+  ) => void;
+  onSelectVariant?: (
+    messageId: string,
+    selected: AiGeneratedPostContent | AiGeneratedCommentContent
+  ) => void;
+  // 发送改写指令，去掉命中的违禁词
+  onComplianceRewrite?: (prompt: string) => void;
   isLoading?: boolean;
-}> = ({ message, onApply, onRegenerate, isLoading = false }) => {
+  // 流式生成中，内容还不完整
+  isStreaming?: boolean;
+  onStop?: () => void;
+}> = ({
+  message,
+  onApply,
+  onRegenerate,
+  onSaveEdit,
+  onSelectVariant,
+  onComplianceRewrite,
+  isLoading = false,
+  isStreaming = false,
+  onStop,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const aiConfig = useAIConfig();
+
   if (
     message.type !== 'result' ||
     (!message.generatedPostData && !message.generatedCommentData)
@@ -403,6 +807,35 @@ const AIResultDisplay: React.FC<{
     return null;
   }
 
+  // 回复评论和评论使用相同的展示样式
+  const isReply = message.messageSource === 'reply';
+  const isComment = message.messageSource === 'comment' || isReply;
+  const revisionCount = message.revisions?.length || 0;
+  const hasVariants = !!message.generatedVariants;
+  const report = checkGeneratedContent(
+    (message.messageSource === 'post'
+      ? message.generatedPostData
+      : message.generatedCommentData) || { content: '' },
+    getComplianceRules(aiConfig.complianceRules)
+  );
+
+  if (isEditing) {
+    return (
+      <div className="flex mb-6 justify-start">
+        <div className="max-w-[300px] w-full bg-white rounded-2xl shadow-lg border border-neutral-100 p-4">
+          <ResultEditor
+            message={message}
+            onSave={(edited) => {
+              onSaveEdit?.(message.id, edited);
+              setIsEditing(false);
+            }}
+            onCancel={() => setIsEditing(false)}
+          />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="flex mb-6 justify-start">
       <div className="max-w-[300px] w-full">
@@ -411,6 +844,16 @@ const AIResultDisplay: React.FC<{
             🤖
           </div>
           <span className="text-micro text-neutral-500">小红书 AI 帮手</span>
+          {message.provider && (
+            <span className="text-micro text-neutral-500 bg-neutral-100 px-1.5 ml-1 rounded-full">
+              {PROVIDER_LABELS[message.provider]}
+            </span>
+          )}
+          {revisionCount > 0 && (
+            <span className="text-micro text-neutral-500 bg-neutral-100 px-1.5 ml-1 rounded-full">
+              已编辑 · 第{revisionCount + 1}版
+            </span>
+          )}
           <span className="text-micro text-neutral-500 ml-auto">
             {message.timestamp.toLocaleTimeString()}
           </span>
@@ -419,95 +862,195 @@ const AIResultDisplay: React.FC<{
         {/* Content Card with Xiaohongshu styling */}
         <div className="bg-white rounded-2xl shadow-lg border border-neutral-100 overflow-hidden">
           <div className="p-4">
+            {/* Variants Section - pick and mix candidates */}
+            {hasVariants && (
+              <VariantComparison
+                message={message}
+                onSelect={(selected) => onSelectVariant?.(message.id, selected)}
+              />
+            )}
+
             {/* Title Section - Only for post */}
-            {message.messageSource === 'post' && message.generatedPostData && (
-              <div className="mb-4">
-                <div className="flex items-center gap-1 mb-2">
-                  <div className="w-6 h-6 rounded-full bg-yellow-100 flex items-center justify-center">
-                    <span className="text-yellow-600 text-sm">📝</span>
+            {message.messageSource === 'post' &&
+              message.generatedPostData &&
+              !hasVariants && (
+                <div className="mb-4">
+                  <div className="flex items-center gap-1 mb-2">
+                    <div className="w-6 h-6 rounded-full bg-yellow-100 flex items-center justify-center">
+                      <span className="text-yellow-600 text-sm">📝</span>
+                    </div>
+                    <span className="text-caption font-semibold text-neutral-700">
+                      标题:
+                    </span>
+                  </div>
+                  <div className="bg-gradient-to-r from-yellow-50 to-orange-50 rounded-xl py-1 px-3 border border-yellow-200">
+                    <p className="text-neutral-900 font-medium text-sm leading-relaxed">
+                      <HighlightedText
+                        text={message.generatedPostData.title}
+                        hits={report.title}
+                      />
+                      {isStreaming && !message.generatedPostData.content && (
+                        <StreamingCursor />
+                      )}
+                    </p>
                   </div>
-                  <span className="text-caption font-semibold text-neutral-700">
-                    标题:
-                  </span>
-                </div>
-                <div className="bg-gradient-to-r from-yellow-50 to-orange-50 rounded-xl py-1 px-3 border border-yellow-200">
-                  <p className="text-neutral-900 font-medium text-sm leading-relaxed">
-                    {message.generatedPostData.title}
-                  </p>
                 </div>
-              </div>
-            )}
+              )}
 
             {/* Content Section */}
-            <div className="mb-5">
-              <div className="flex items-center gap-1 mb-2">
-                <div
-                  className={`w-6 h-6 rounded-full flex items-center justify-center ${
-                    message.messageSource === 'comment'
-                      ? 'bg-green-100'
-                      : 'bg-blue-100'
-                  }`}
-                >
-                  <span
-                    className={`text-sm ${
-                      message.messageSource === 'comment'
-                        ? 'text-green-600'
-                        : 'text-blue-600'
+            {!hasVariants && (
+              <div className="mb-5">
+                <div className="flex items-center gap-1 mb-2">
+                  <div
+                    className={`w-6 h-6 rounded-full flex items-center justify-center ${
+                      isComment ? 'bg-green-100' : 'bg-blue-100'
                     }`}
                   >
-                    {message.messageSource === 'comment' ? '💬' : '📖'}
+                    <span
+                      className={`text-sm ${
+                        isComment ? 'text-green-600' : 'text-blue-600'
+                      }`}
+                    >
+                      {isComment ? '💬' : '📖'}
+                    </span>
+                  </div>
+                  <span className="text-caption font-semibold text-neutral-700">
+                    {isComment ? (isReply ? '回复:' : '评论:') : '内容:'}
                   </span>
                 </div>
-                <span className="text-caption font-semibold text-neutral-700">
-                  {message.messageSource === 'comment' ? '评论:' : '内容:'}
-                </span>
-              </div>
-              <div
-                className={`rounded-xl py-1 px-3 ${
-                  message.messageSource === 'comment'
-                    ? 'bg-gradient-to-r from-green-50 to-teal-50 border border-green-200'
-                    : 'bg-gradient-to-r from-blue-50 to-purple-50 border border-blue-200'
-                }`}
-              >
-                <div className="text-neutral-900 text-sm leading-relaxed whitespace-pre-wrap">
-                  {message.messageSource === 'post'
-                    ? message.generatedPostData?.content
-                    : message.generatedCommentData?.content}
+                <div
+                  className={`rounded-xl py-1 px-3 ${
+                    isComment
+                      ? 'bg-gradient-to-r from-green-50 to-teal-50 border border-green-200'
+                      : 'bg-gradient-to-r from-blue-50 to-purple-50 border border-blue-200'
+                  }`}
+                >
+                  <div className="text-neutral-900 text-sm leading-relaxed whitespace-pre-wrap">
+                    <HighlightedText
+                      text={
+                        (message.messageSource === 'post'
+                          ? message.generatedPostData?.content
+                          : message.generatedCommentData?.content) || ''
+                      }
+                      hits={report.content}
+                    />
+                    {isStreaming &&
+                      (message.messageSource !== 'post' ||
+                        !!message.generatedPostData?.content) && (
+                        <StreamingCursor />
+                      )}
+                  </div>
                 </div>
               </div>
-            </div>
+            )}
 
-            {/* Action Buttons */}
-            <div className="flex justify-around items-center">
-              <ApplyButton
-                onClick={() => onApply?.(message.id)}
-                isLoading={isLoading}
-                text={
-                  message.messageSource === 'comment'
-                    ? '💬 应用评论'
-                    : '📋 应用文案'
-                }
-                loadingText={
-                  message.messageSource === 'comment'
-                    ? '应用评论中...'
-                    : '应用文案中...'
+            {/* Compliance check */}
+            {!isStreaming && (
+              <ComplianceNotice
+                report={report}
+                onRewrite={
+                  onComplianceRewrite &&
+                  (() =>
+                    onComplianceRewrite(buildComplianceRewritePrompt(report)))
                 }
               />
-              <RegenerateButton
-                onClick={() => onRegenerate?.()}
-                isLoading={isLoading}
-              />
-            </div>
+            )}
+
+            {/* Stop Button while streaming */}
+            {isStreaming && onStop && (
+              <div className="flex justify-end items-center">
+                <StopButton onClick={onStop} />
+              </div>
+            )}
+
+            {/* Action Buttons */}
+            {!isStreaming && (
+              <div className="flex justify-around items-center">
+                <ApplyButton
+                  onClick={() => onApply?.(message.id)}
+                  isLoading={isLoading}
+                  text={
+                    isReply
+                      ? '↩️ 应用回复'
+                      : isComment
+                        ? '💬 应用评论'
+                        : '📋 应用文案'
+                  }
+                  loadingText={
+                    isReply
+                      ? '应用回复中...'
+                      : isComment
+                        ? '应用评论中...'
+                        : '应用文案中...'
+                  }
+                />
+                <RegenerateButton
+                  onClick={() => onRegenerate?.()}
+                  isLoading={isLoading}
+                />
+                {onSaveEdit && (
+                  <button
+                    onClick={() => setIsEditing(true)}
+                    disabled={isLoading}
+                    className="text-caption text-neutral-500 hover:text-xhs-red disabled:opacity-70 transition-colors"
+                  >
+                    ✏️ 编辑
+                  </button>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Bottom accent */}
           {/* <div className="h-0.5 bg-gradient-to-r from-transparent via-xhs-red to-transparent opacity-30"></div> */}
         </div>
+
+        {/* Token usage & cost */}
+        {message.usage && (
+          <div className="mt-1 px-1 text-micro text-neutral-500">
+            输入 {message.usage.inputTokens.toLocaleString()} · 输出{' '}
+            {message.usage.outputTokens.toLocaleString()} tokens
+            {message.cost !== undefined && ` · ${formatCost(message.cost)}`}
+          </div>
+        )}
       </div>
     </div>
   );
 };
 
+// 流式生成时跟在文字后面的光标
+const StreamingCursor = () => {
+  return (
+    <span className="inline-block w-1.5 h-3.5 ml-0.5 align-middle bg-neutral-500 animate-pulse" />
+  );
+};
+
+// 将流式生成的部分内容包装成结果消息，用于实时预览
+function buildStreamingPreviewMessage(
+  partial: PartialGeneratedContent,
+  msgSource: MessageSource
+): ChatMessage {
+  return {
+    id: 'streaming-preview',
+    type: 'result',
+    messageSource: msgSource,
+    sender: 'assistant',
+    timestamp: new Date(),
+    ...(msgSource === 'post'
+      ? {
+          generatedPostData: {
+            title: partial.title || '',
+            content: partial.content || '',
+          },
+        }
+      : {
+          generatedCommentData: {
+            content: partial.content || '',
+          },
+        }),
+  };
+}
+
 const Introduction = ({ message }: { message: ChatMessage }) => {
   return (
     <div className={`flex mb-4 justify-start`}>
@@ -690,8 +1233,24 @@ const Introduction = ({ message }: { message: ChatMessage }) => {
 const MessageBubble: React.FC<{
   message: ChatMessage;
   onApply?: (messageId: string) => void;
+  onUndo?: (messageId: string) => void;
+  onSaveEdit?: (
+    messageId: string,
+    edited: AiGeneratedPostContent | AiGeneratedCommentContent
+  ) => void;
+  onSelectVariant?: (
+    messageId: string,
+    selected: AiGeneratedPostContent | AiGeneratedCommentContent
+  ) => void;
   onCommandClick?: (command: string, messageSource: MessageSource) => void;
-}> = ({ message, onApply, onCommandClick }) => {
+}> = ({
+  message,
+  onApply,
+  onUndo,
+  onSaveEdit,
+  onSelectVariant,
+  onCommandClick,
+}) => {
   const msgSource = message.messageSource || 'post';
   // Handle regenerate click with a specific regenerate prompt
   const handleRegenerateClick = () => {
@@ -730,10 +1289,11 @@ const MessageBubble: React.FC<{
     );
   }
 
-  // Handle collected content for generate comment
+  // Handle collected content for generate comment / reply
   if (
     message.type === 'collected' &&
-    message.messageSource === 'comment' &&
+    (message.messageSource === 'comment' ||
+      message.messageSource === 'reply') &&
     message.collectedData
   ) {
     return (
@@ -743,12 +1303,23 @@ const MessageBubble: React.FC<{
         onCommandClickForComment={(command) => {
           if (!onCommandClick) return;
           // Pass the command with the message source
-          onCommandClick(command, 'comment');
+          onCommandClick(command, msgSource);
         }}
       />
     );
   }
 
+  // Handle cancelled generation
+  if (message.type === 'cancelled') {
+    return (
+      <div className="text-center my-4">
+        <span className="text-caption text-neutral-500 border border-dashed border-neutral-300 px-3 py-1 rounded-full">
+          ⏹ {message.content}
+        </span>
+      </div>
+    );
+  }
+
   // Handle system messages
   if (message.sender === 'system') {
     return (
@@ -756,6 +1327,14 @@ const MessageBubble: React.FC<{
         <span className="text-caption text-neutral-500 bg-neutral-100 px-3 py-1 rounded-full">
           {message.content}
         </span>
+        {message.undoSnapshotId && !message.isUndone && (
+          <button
+            onClick={() => onUndo?.(message.id)}
+            className="ml-2 text-caption text-xhs-red hover:underline"
+          >
+            撤销
+          </button>
+        )}
       </div>
     );
   }
@@ -767,6 +1346,11 @@ const MessageBubble: React.FC<{
         message={message}
         onApply={onApply}
         onRegenerate={handleRegenerateClick}
+        onSaveEdit={onSaveEdit}
+        onSelectVariant={onSelectVariant}
+        onComplianceRewrite={
+          onCommandClick && ((prompt) => onCommandClick(prompt, msgSource))
+        }
       />
     );
   }
@@ -845,7 +1429,15 @@ const MessageBubble: React.FC<{
 const ChatInput: React.FC<{
   onSendMessage: (userMessage: UserMessage) => void;
   disabled?: boolean;
-}> = ({ onSendMessage, disabled = false }) => {
+  // 多候选模式：一次生成多个候选
+  isVariantMode?: boolean;
+  onToggleVariantMode?: () => void;
+}> = ({
+  onSendMessage,
+  disabled = false,
+  isVariantMode = false,
+  onToggleVariantMode,
+}) => {
   const [message, setMessage] = useState('');
   const [uploadedImages, setUploadedImages] = useState<string[]>([]);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -954,6 +1546,26 @@ const ChatInput: React.FC<{
           📷
         </button>
 
+        {/* 多候选模式开关 */}
+        {onToggleVariantMode && (
+          <button
+            onClick={onToggleVariantMode}
+            disabled={disabled}
+            className={`flex items-center justify-center w-8 h-8 text-base rounded transition-colors disabled:opacity-50 border ${
+              isVariantMode
+                ? 'border-xhs-red bg-red-50'
+                : 'border-neutral-200 text-neutral-500 hover:bg-neutral-50'
+            }`}
+            title={
+              isVariantMode
+                ? '多候选模式已开启：一次生成多个候选'
+                : '开启多候选模式：一次生成多个候选对比挑选'
+            }
+          >
+            🎲
+          </button>
+        )}
+
         {/* Message input */}
         <div className="flex-1 flex items-center">
           <textarea
@@ -985,15 +1597,169 @@ const ChatInput: React.FC<{
   );
 };
 
+// 页面已切换到其他笔记时的提示条
+const NoteSwitchBanner: React.FC<{
+  onSwitch: () => void;
+  onDismiss: () => void;
+  disabled?: boolean;
+}> = ({ onSwitch, onDismiss, disabled = false }) => (
+  <div className="sticky top-0 z-10 mb-4 flex items-center gap-2 px-3 py-2 rounded-lg border border-amber-200 bg-amber-50 shadow-sm">
+    <span className="text-caption text-amber-800">
+      📄 页面已切换到另一篇笔记，当前内容仍来自之前的笔记
+    </span>
+    <button
+      onClick={onSwitch}
+      disabled={disabled}
+      className="ml-auto shrink-0 px-2 py-1 text-micro font-medium text-white bg-xhs-red rounded hover:bg-xhs-red-hover disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+    >
+      切换
+    </button>
+    <button
+      onClick={onDismiss}
+      className="shrink-0 px-1 text-micro text-neutral-500 hover:text-neutral-700"
+    >
+      忽略
+    </button>
+  </div>
+);
+
+// 重新收集了已有会话的笔记时，提示打开之前的会话继续编辑
+const PreviousConversationBanner: React.FC<{
+  conversation: ConversationSummary;
+  onOpen: () => void;
+  onDismiss: () => void;
+}> = ({ conversation, onOpen, onDismiss }) => (
+  <div className="mb-4 flex items-center gap-2 px-3 py-2 rounded-lg border border-neutral-200 bg-neutral-50 shadow-sm">
+    <span className="text-caption text-neutral-700">
+      🕘 这篇笔记有 {conversation.updatedAt.toLocaleString()}{' '}
+      的会话，可以继续编辑
+    </span>
+    <button
+      onClick={onOpen}
+      className="ml-auto shrink-0 px-2 py-1 text-micro font-medium text-white bg-xhs-red rounded hover:bg-xhs-red-hover transition-colors"
+    >
+      打开
+    </button>
+    <button
+      onClick={onDismiss}
+      className="shrink-0 px-1 text-micro text-neutral-500 hover:text-neutral-700"
+    >
+      忽略
+    </button>
+  </div>
+);
+
 // Main ChatInterface Component
-const ChatInterfaceComponent = () => {
+const ChatInterfaceComponent: React.FC<{
+  // 页面上当前打开的笔记
+  pageNote?: PageNote | null;
+}> = ({ pageNote }) => {
   // Use external messages if provided, otherwise fall back to local state
   const messages = useMessages();
   const messageDispatch = useMessagesDispatch();
   const aiConfig = useAIConfig();
 
   const [isLoading, setIsLoading] = useState(false);
+  const [isVariantMode, setIsVariantMode] = useState(false);
+  // 流式生成中的部分内容，生成完成并通过校验后才会加入消息列表
+  const [streamingPreview, setStreamingPreview] = useState<{
+    msgSource: MessageSource;
+    partial: PartialGeneratedContent;
+  } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // 当前进行中的AI请求，用于停止生成
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // 笔记应用前的对比预览
+  const [applyPreview, setApplyPreview] = useState<{
+    messageId: string;
+    current: AiGeneratedPostContent;
+    generated: AiGeneratedPostContent;
+  } | null>(null);
+  // 用户选择忽略切换提示的页面链接
+  const [dismissedNoteUrl, setDismissedNoteUrl] = useState<string | null>(null);
+  // 正在切换到的笔记，避免自动切换重复收集
+  const switchingNoteIdRef = useRef<string | undefined>(undefined);
+  // 当前收集的笔记之前的会话
+  const [previousConversation, setPreviousConversation] =
+    useState<ConversationSummary | null>(null);
+
+  // 当前对话基于的笔记，页面切换到其他笔记后提示或自动切换
+  const contextNoteId = messages.find((msg) => msg.type === 'collected')
+    ?.collectedData?.noteId;
+  const isNoteStale =
+    !!contextNoteId && !!pageNote?.noteId && pageNote.noteId !== contextNoteId;
+
+  // 收集内容后查找同一篇笔记之前的会话，还没开始对话时提示打开
+  const collectedMessage = messages.find((msg) => msg.type === 'collected');
+  const collectedId = collectedMessage?.id;
+  const collectedNoteId = collectedMessage?.collectedData?.noteId;
+  const collectedUrl = collectedMessage?.collectedData?.url;
+  const hasUserMessage = messages.some((msg) => msg.type === 'user');
+
+  useEffect(() => {
+    setPreviousConversation(null);
+    if (!collectedId) return;
+    let isCancelled = false;
+    findNoteConversations(
+      { noteId: collectedNoteId, url: collectedUrl },
+      collectedId
+    )
+      .then((conversations) => {
+        if (!isCancelled) setPreviousConversation(conversations[0] || null);
+      })
+      .catch((error) =>
+        console.error('Failed to find previous conversations:', error)
+      );
+    return () => {
+      isCancelled = true;
+    };
+  }, [collectedId, collectedNoteId, collectedUrl]);
+
+  const openPreviousConversation = async (id: string) => {
+    setPreviousConversation(null);
+    try {
+      const restored = await loadConversation(id);
+      if (restored) {
+        messageDispatch?.({ type: 'restore', data: restored });
+      }
+    } catch (error) {
+      console.error('Failed to open previous conversation:', error);
+    }
+  };
+
+  // 让页面重新收集当前笔记，收集结果会作为新的对话内容
+  const switchToPageNote = useCallback(async () => {
+    switchingNoteIdRef.current = pageNote?.noteId;
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: 'collectNoteFromPage',
+      });
+      if (!response?.success) {
+        throw new Error(response?.error || '收集笔记内容失败');
+      }
+    } catch (error) {
+      console.error('Failed to switch note:', error);
+      switchingNoteIdRef.current = undefined;
+    }
+  }, [pageNote]);
+
+  // 开启自动切换时，等当前生成结束后切换
+  useEffect(() => {
+    if (
+      isNoteStale &&
+      aiConfig.autoSwitchNote &&
+      !isLoading &&
+      switchingNoteIdRef.current !== pageNote?.noteId
+    ) {
+      switchToPageNote();
+    }
+  }, [
+    isNoteStale,
+    aiConfig.autoSwitchNote,
+    isLoading,
+    pageNote,
+    switchToPageNote,
+  ]);
 
   // Auto-scroll to bottom
   const scrollToBottom = () => {
@@ -1002,18 +1768,25 @@ const ChatInterfaceComponent = () => {
 
   const requestAIResponse = useCallback(
     async (messages: ChatMessage[]) => {
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
       try {
         setIsLoading(true);
-        const aiService = new AIService(aiConfig);
         const infoMessages = messages.filter(
           (msg) => msg.type !== 'introduction'
         );
-        const chatMessages = buildChatMessages(infoMessages, aiConfig);
         const lastMsg = messages[messages.length - 1];
         const msgSource: MessageSource = lastMsg.messageSource || 'post';
-        const response = await aiService.chatCompletion(
-          chatMessages,
-          msgSource
+        const variants = lastMsg.userMessage?.variantCounts;
+        const response = await generateWithFallback(
+          infoMessages,
+          msgSource,
+          aiConfig,
+          {
+            onPartial: (partial) => setStreamingPreview({ msgSource, partial }),
+            signal: abortController.signal,
+            variants,
+          }
         );
 
         // Parse response as JSON (should always be JSON now)
@@ -1036,7 +1809,37 @@ const ChatInterfaceComponent = () => {
           const parsedResponse = JSON.parse(cleanedContent);
 
           // 使用JSON Schema验证响应格式
-          if (validateContentResponse(parsedResponse, msgSource)) {
+          if (
+            variants &&
+            validateVariantsResponse(parsedResponse, msgSource, variants)
+          ) {
+            // 多个候选，默认选中第一个标题和第一个正文
+            const titles = parsedResponse.titles || [];
+            const contents = parsedResponse.contents;
+            aiMessage = {
+              id: `ai-${Date.now()}`,
+              type: 'result',
+              messageSource: msgSource,
+              sender: 'assistant',
+              timestamp: new Date(),
+              provider: response.provider,
+              usage: response.usage,
+              cost: response.cost,
+              generatedVariants: { titles, contents },
+              ...(msgSource === 'post'
+                ? {
+                    generatedPostData: {
+                      title: titles[0],
+                      content: contents[0],
+                    },
+                  }
+                : {
+                    generatedCommentData: {
+                      content: contents[0],
+                    },
+                  }),
+            };
+          } else if (validateContentResponse(parsedResponse, msgSource)) {
             // Generated content response with structured data
             aiMessage = {
               id: `ai-${Date.now()}`,
@@ -1044,6 +1847,9 @@ const ChatInterfaceComponent = () => {
               messageSource: msgSource,
               sender: 'assistant',
               timestamp: new Date(),
+              provider: response.provider,
+              usage: response.usage,
+              cost: response.cost,
               ...(msgSource === 'post'
                 ? {
                     generatedPostData: {
@@ -1068,6 +1874,7 @@ const ChatInterfaceComponent = () => {
               errors.push('标题超过20字符限制');
             if (parsedResponse.content && parsedResponse.content.length > 1000)
               errors.push('内容超过1000字符限制');
+            if (errors.length === 0) errors.push('字段长度或候选数量超出限制');
 
             throw new Error(`JSON Schema验证失败: ${errors.join(', ')}`);
           }
@@ -1091,6 +1898,23 @@ const ChatInterfaceComponent = () => {
           });
         }
       } catch (error) {
+        // 用户主动停止生成，不作为错误显示
+        if (abortController.signal.aborted) {
+          if (messageDispatch) {
+            messageDispatch({
+              type: 'add',
+              data: {
+                id: `cancelled-${Date.now()}`,
+                type: 'cancelled',
+                sender: 'system',
+                content: '已停止生成',
+                timestamp: new Date(),
+              },
+            });
+          }
+          return;
+        }
+
         console.error('AI request failed:', error);
 
         // Add error message
@@ -1111,7 +1935,9 @@ const ChatInterfaceComponent = () => {
           });
         }
       } finally {
+        abortControllerRef.current = null;
         setIsLoading(false);
+        setStreamingPreview(null);
       }
     },
     [messageDispatch, aiConfig]
@@ -1119,7 +1945,11 @@ const ChatInterfaceComponent = () => {
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, streamingPreview]);
+
+  const handleStopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
 
   const handleSendMessage = async (userMessageData: UserMessage) => {
     if (isLoading) return;
@@ -1139,7 +1969,12 @@ const ChatInterfaceComponent = () => {
       sender: 'user',
       messageSource: msgSource,
       timestamp: new Date(),
-      userMessage: userMessageData,
+      userMessage: isVariantMode
+        ? {
+            ...userMessageData,
+            variantCounts: DEFAULT_VARIANT_COUNTS[msgSource],
+          }
+        : userMessageData,
     };
 
     if (messageDispatch) {
@@ -1154,7 +1989,184 @@ const ChatInterfaceComponent = () => {
     }
   };
 
+  // 仍有严重违禁词时，应用到页面前需要确认
+  const confirmCompliance = (message: ChatMessage) => {
+    const generated = message.generatedPostData || message.generatedCommentData;
+    if (!generated) return true;
+    const report = checkGeneratedContent(
+      generated,
+      getComplianceRules(aiConfig.complianceRules)
+    );
+    if (!hasSevereHits(report)) return true;
+    const words = getDistinctRules(report)
+      .filter((rule) => rule.severity === 'severe')
+      .map((rule) => `“${rule.word}”`)
+      .join('、');
+    return window.confirm(
+      `内容中仍有可能导致限流的违禁词：${words}\n确定要应用到页面吗？`
+    );
+  };
+
+  // 笔记应用前先对比页面当前内容，页面为空时直接应用
   const handleApplyMessage = async (messageId: string) => {
+    const targetMessage = messages.find((msg) => msg.id === messageId);
+    if (targetMessage && !confirmCompliance(targetMessage)) return;
+    const generatedPostData = targetMessage?.generatedPostData;
+    if (targetMessage?.messageSource !== 'post' || !generatedPostData) {
+      await applyMessageToPage(messageId);
+      return;
+    }
+
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: 'readPostFromPage',
+      });
+      if (!response?.success) {
+        throw new Error(response?.error || '读取页面内容失败');
+      }
+      const current: AiGeneratedPostContent = response.data;
+      if (!current.title.trim() && !current.content.trim()) {
+        await applyMessageToPage(messageId);
+        return;
+      }
+      setApplyPreview({ messageId, current, generated: generatedPostData });
+    } catch (error) {
+      console.error('Failed to read page content:', error);
+      addSystemMessage(
+        `❌ Failed to read page content: ${
+          error instanceof Error ? error.message : 'Please try again.'
+        }`
+      );
+    }
+  };
+
+  const addSystemMessage = (content: string) => {
+    messageDispatch?.({
+      type: 'add',
+      data: {
+        id: `system-${Date.now()}`,
+        type: 'ai',
+        sender: 'system',
+        content,
+        timestamp: new Date(),
+      },
+    });
+  };
+
+  // 撤销一次应用，恢复页面上被覆盖的内容
+  const handleUndoApply = async (messageId: string) => {
+    const targetMessage = messages.find((msg) => msg.id === messageId);
+    if (!targetMessage?.undoSnapshotId || targetMessage.isUndone) return;
+
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: 'undoApplyToPage',
+        data: { snapshotId: targetMessage.undoSnapshotId },
+      });
+      if (!response?.success) {
+        throw new Error(response?.error || 'Failed to undo');
+      }
+      messageDispatch?.({
+        type: 'update',
+        id: messageId,
+        data: { isUndone: true },
+      });
+      addSystemMessage(`↩️ ${response.message || '已撤销应用'}`);
+    } catch (error) {
+      console.error('Failed to undo apply:', error);
+      addSystemMessage(
+        `❌ Failed to undo: ${
+          error instanceof Error ? error.message : 'Please try again.'
+        }`
+      );
+    }
+  };
+
+  // 保存编辑后的生成结果：旧内容存为历史版本，应用时使用编辑后的内容，
+  // 修改记录作为用户偏好的措辞供之后生成参考
+  const handleSaveEdit = (
+    messageId: string,
+    edited: AiGeneratedPostContent | AiGeneratedCommentContent
+  ) => {
+    const targetMessage = messages.find((msg) => msg.id === messageId);
+    if (!targetMessage) return;
+    const msgSource = targetMessage.messageSource || 'post';
+    const previous =
+      msgSource === 'post'
+        ? targetMessage.generatedPostData
+        : targetMessage.generatedCommentData;
+    if (!previous) return;
+    // 没有修改时不产生新版本
+    if (
+      previous.content === edited.content &&
+      (msgSource !== 'post' ||
+        (previous as AiGeneratedPostContent).title ===
+          (edited as AiGeneratedPostContent).title)
+    ) {
+      return;
+    }
+
+    messageDispatch?.({
+      type: 'update',
+      id: messageId,
+      data: {
+        revisions: [
+          ...(targetMessage.revisions || []),
+          {
+            generatedPostData: targetMessage.generatedPostData,
+            generatedCommentData: targetMessage.generatedCommentData,
+            timestamp: new Date(),
+          },
+        ],
+        ...(msgSource === 'post'
+          ? { generatedPostData: edited as AiGeneratedPostContent }
+          : { generatedCommentData: { content: edited.content } }),
+      },
+    });
+
+    const edits: Omit<WordingEdit, 'timestamp'>[] = [
+      {
+        msgSource,
+        field: 'content',
+        original: previous.content,
+        edited: edited.content,
+      },
+    ];
+    if (msgSource === 'post') {
+      edits.unshift({
+        msgSource,
+        field: 'title',
+        original: (previous as AiGeneratedPostContent).title,
+        edited: (edited as AiGeneratedPostContent).title,
+      });
+    }
+    recordWordingEdits(edits).catch((error) =>
+      console.error('Failed to record wording edits:', error)
+    );
+  };
+
+  // 在多个候选中选择（或组合）要使用的标题和正文
+  const handleSelectVariant = (
+    messageId: string,
+    selected: AiGeneratedPostContent | AiGeneratedCommentContent
+  ) => {
+    const targetMessage = messages.find((msg) => msg.id === messageId);
+    if (!targetMessage) return;
+    messageDispatch?.({
+      type: 'update',
+      id: messageId,
+      data:
+        targetMessage.messageSource === 'post'
+          ? { generatedPostData: selected as AiGeneratedPostContent }
+          : { generatedCommentData: { content: selected.content } },
+    });
+  };
+
+  // fields 为预览中选择要应用的字段，不传时应用全部
+  const applyMessageToPage = async (
+    messageId: string,
+    fields?: ApplyField[]
+  ) => {
     console.log('Applying message:', messageId);
 
     // Find the message with the generated data
@@ -1171,21 +2183,42 @@ const ChatInterfaceComponent = () => {
     try {
       // Prepare data based on message source
       const isPostMessage = targetMessage.messageSource === 'post';
+      const isReplyMessage = targetMessage.messageSource === 'reply';
       const actionType = isPostMessage
         ? 'applyContentToPage'
-        : 'applyCommentToPage';
+        : isReplyMessage
+          ? 'applyReplyToPage'
+          : 'applyCommentToPage';
+      // 回复需要知道是回复哪条评论
+      const replyTarget = isReplyMessage
+        ? messages.find((msg) => msg.collectedData?.replyTarget)?.collectedData
+            ?.replyTarget
+        : undefined;
+
+      // 应用前由页面确认仍是收集内容时的笔记
+      const noteId = messages.find((msg) => msg.collectedData)?.collectedData
+        ?.noteId;
 
       const data =
         isPostMessage && targetMessage.generatedPostData
           ? {
               messageId,
-              title: targetMessage.generatedPostData.title,
-              content: targetMessage.generatedPostData.content,
+              // 未选择的字段留空，页面不会修改
+              title:
+                !fields || fields.includes('title')
+                  ? targetMessage.generatedPostData.title
+                  : '',
+              content:
+                !fields || fields.includes('content')
+                  ? targetMessage.generatedPostData.content
+                  : '',
               timestamp: new Date().toISOString(),
             }
           : {
               messageId,
               content: targetMessage.generatedCommentData?.content,
+              commentId: replyTarget?.commentId,
+              noteId,
               timestamp: new Date().toISOString(),
             };
 
@@ -1203,6 +2236,7 @@ const ChatInterfaceComponent = () => {
           sender: 'system',
           content: '✅ Content successfully applied to page!',
           timestamp: new Date(),
+          undoSnapshotId: response.snapshotId,
         };
         if (messageDispatch) {
           messageDispatch({
@@ -1220,7 +2254,9 @@ const ChatInterfaceComponent = () => {
         id: `error-${Date.now()}`,
         type: 'ai',
         sender: 'system',
-        content: '❌ Failed to apply content. Please try again.',
+        content: `❌ Failed to apply content: ${
+          error instanceof Error ? error.message : 'Please try again.'
+        }`,
         timestamp: new Date(),
       };
       if (messageDispatch) {
@@ -1232,23 +2268,59 @@ const ChatInterfaceComponent = () => {
     }
   };
 
+  const hasStreamingContent =
+    !!streamingPreview?.partial.title || !!streamingPreview?.partial.content;
+
   return (
     <div className="flex flex-col h-full bg-neutral-50 overflow-y-scroll">
       {/* Messages area */}
       <div className="flex-1 overflow-y-auto p-4">
+        {isNoteStale &&
+          (!aiConfig.autoSwitchNote || isLoading) &&
+          dismissedNoteUrl !== pageNote?.url && (
+            <NoteSwitchBanner
+              onSwitch={switchToPageNote}
+              onDismiss={() => setDismissedNoteUrl(pageNote?.url || null)}
+              disabled={isLoading}
+            />
+          )}
+
+        {previousConversation && !hasUserMessage && (
+          <PreviousConversationBanner
+            conversation={previousConversation}
+            onOpen={() => openPreviousConversation(previousConversation.id)}
+            onDismiss={() => setPreviousConversation(null)}
+          />
+        )}
+
         {messages.map((message) => (
           <MessageBubble
             key={message.id}
             message={message}
             onApply={handleApplyMessage}
+            onUndo={handleUndoApply}
+            onSaveEdit={handleSaveEdit}
+            onSelectVariant={handleSelectVariant}
             onCommandClick={(command: string, msgSource: MessageSource) =>
               handleSendMessage({ content: command, msgSource: msgSource })
             }
           />
         ))}
 
+        {/* Streaming preview */}
+        {isLoading && streamingPreview && hasStreamingContent && (
+          <AIResultDisplay
+            message={buildStreamingPreviewMessage(
+              streamingPreview.partial,
+              streamingPreview.msgSource
+            )}
+            isStreaming
+            onStop={handleStopGeneration}
+          />
+        )}
+
         {/* Loading indicator */}
-        {isLoading && (
+        {isLoading && !hasStreamingContent && (
           <div className="flex justify-start mb-4">
             <div className="max-w-[280px]">
               <div className="flex items-center gap-2 mb-1">
@@ -1265,6 +2337,10 @@ const ChatInterfaceComponent = () => {
                   <span className="text-sm text-neutral-500">
                     AI is thinking...
                   </span>
+                  <StopButton
+                    onClick={handleStopGeneration}
+                    className="ml-auto"
+                  />
                 </div>
               </div>
             </div>
@@ -1275,7 +2351,24 @@ const ChatInterfaceComponent = () => {
       </div>
 
       {/* Input area */}
-      <ChatInput onSendMessage={handleSendMessage} disabled={isLoading} />
+      <ChatInput
+        onSendMessage={handleSendMessage}
+        disabled={isLoading}
+        isVariantMode={isVariantMode}
+        onToggleVariantMode={() => setIsVariantMode((prev) => !prev)}
+      />
+
+      {applyPreview && (
+        <ApplyPreview
+          current={applyPreview.current}
+          generated={applyPreview.generated}
+          onConfirm={(fields) => {
+            setApplyPreview(null);
+            applyMessageToPage(applyPreview.messageId, fields);
+          }}
+          onClose={() => setApplyPreview(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,192 @@
+import React, { useRef, useState } from 'react';
+import {
+  COMPLIANCE_CATEGORY_LABELS,
+  COMPLIANCE_SEVERITY_LABELS,
+  exportComplianceRules,
+  getComplianceRules,
+  mergeComplianceRules,
+  parseComplianceRulesImport,
+  type ComplianceCategory,
+  type ComplianceRule,
+  type ComplianceSeverity,
+} from '../services/complianceRules';
+import { downloadExportFile } from '../services/conversationExport';
+
+interface ComplianceSettingsProps {
+  // 未设置时使用默认规则
+  rules?: ComplianceRule[];
+  onChange: (rules?: ComplianceRule[]) => void;
+}
+
+const CATEGORIES = Object.keys(
+  COMPLIANCE_CATEGORY_LABELS
+) as ComplianceCategory[];
+
+// 违禁词规则：生成结果和草稿中命中的词会被标出
+export const ComplianceSettings: React.FC<ComplianceSettingsProps> = ({
+  rules,
+  onChange,
+}) => {
+  const [category, setCategory] = useState<ComplianceCategory>('absolute');
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const allRules = getComplianceRules(rules);
+
+  const updateRule = (
+    target: ComplianceRule,
+    data: Partial<ComplianceRule>
+  ) => {
+    onChange(
+      allRules.map((item) => (item === target ? { ...item, ...data } : item))
+    );
+  };
+
+  const addRule = () => {
+    onChange([
+      ...allRules,
+      { word: '', category, severity: 'severe', replacement: '' },
+    ]);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // 清空文件输入，允许再次选择同一个文件
+    event.target.value = '';
+    if (!file) return;
+
+    setError('');
+    setNotice('');
+    try {
+      const imported = parseComplianceRulesImport(await file.text());
+      onChange(mergeComplianceRules(allRules, imported));
+      setNotice(`已导入 ${imported.length} 条规则，保存设置后生效`);
+    } catch (err) {
+      console.error('Failed to import compliance rules:', err);
+      setError(
+        `导入失败：${err instanceof Error ? err.message : '请检查文件内容'}`
+      );
+    }
+  };
+
+  const visibleRules = allRules.filter((item) => item.category === category);
+
+  return (
+    <section className="mb-6">
+      <h3 className="text-lg font-semibold text-neutral-900 mb-4">
+        违禁词检查
+      </h3>
+      <p className="mb-3 text-micro text-neutral-500">
+        生成结果和收集的草稿中命中的词会标出并给出替换建议；仍有“严重”级别的词时，应用到页面前需要确认。可以导入本插件导出的
+        JSON，或每行一个词的文本文件（“词语=替换”）
+      </p>
+
+      <div className="flex flex-wrap gap-1 mb-3">
+        {CATEGORIES.map((item) => (
+          <button
+            key={item}
+            onClick={() => setCategory(item)}
+            className={`px-3 py-1 text-caption rounded-full border transition-colors ${
+              category === item
+                ? 'text-white bg-xhs-red border-xhs-red'
+                : 'text-neutral-700 border-neutral-300 hover:bg-neutral-50'
+            }`}
+          >
+            {COMPLIANCE_CATEGORY_LABELS[item]} (
+            {allRules.filter((rule) => rule.category === item).length})
+          </button>
+        ))}
+      </div>
+
+      <ul className="space-y-1 max-h-64 overflow-y-auto">
+        {visibleRules.map((item, index) => (
+          <li key={index} className="flex items-center gap-1">
+            <input
+              type="text"
+              value={item.word}
+              onChange={(e) => updateRule(item, { word: e.target.value })}
+              placeholder="违禁词"
+              className="flex-1 min-w-0 px-2 py-1 text-sm border border-neutral-300 rounded focus:border-xhs-red focus:outline-none"
+            />
+            <span className="text-micro text-neutral-400">→</span>
+            <input
+              type="text"
+              value={item.replacement || ''}
+              onChange={(e) =>
+                updateRule(item, { replacement: e.target.value })
+              }
+              placeholder="建议删除"
+              className="flex-1 min-w-0 px-2 py-1 text-sm border border-neutral-300 rounded focus:border-xhs-red focus:outline-none"
+              title="建议替换的说法"
+            />
+            <select
+              value={item.severity}
+              onChange={(e) =>
+                updateRule(item, {
+                  severity: e.target.value as ComplianceSeverity,
+                })
+              }
+              className="px-1 py-1 text-caption border border-neutral-300 rounded focus:border-xhs-red focus:outline-none"
+            >
+              {(
+                Object.keys(COMPLIANCE_SEVERITY_LABELS) as ComplianceSeverity[]
+              ).map((severity) => (
+                <option key={severity} value={severity}>
+                  {COMPLIANCE_SEVERITY_LABELS[severity]}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => onChange(allRules.filter((rule) => rule !== item))}
+              className="px-1 text-neutral-400 hover:text-red-600"
+              title="删除"
+            >
+              ×
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <button
+        onClick={addRule}
+        className="mt-2 w-full py-1.5 text-caption text-neutral-700 border border-dashed border-neutral-300 rounded-lg hover:bg-neutral-50 transition-colors"
+      >
+        + 添加{COMPLIANCE_CATEGORY_LABELS[category]}
+      </button>
+
+      <div className="flex items-center gap-2 mt-2 text-caption">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-2 py-1 text-neutral-700 border border-neutral-300 rounded hover:bg-neutral-50 transition-colors"
+        >
+          导入
+        </button>
+        <button
+          onClick={() => downloadExportFile(exportComplianceRules(allRules))}
+          className="px-2 py-1 text-neutral-700 border border-neutral-300 rounded hover:bg-neutral-50 transition-colors"
+        >
+          导出
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json,text/plain,.txt"
+          className="hidden"
+          onChange={handleImport}
+        />
+        {rules && (
+          <button
+            onClick={() => onChange(undefined)}
+            className="ml-auto text-micro text-neutral-500 hover:text-xhs-red"
+          >
+            恢复默认
+          </button>
+        )}
+      </div>
+
+      {error && <p className="mt-2 text-caption text-red-600">{error}</p>}
+      {notice && <p className="mt-2 text-caption text-green-600">{notice}</p>}
+    </section>
+  );
+};
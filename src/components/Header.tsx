@@ -1,12 +1,19 @@
 import React from 'react';
 import redNoteIcon from '../assets/redNote_icon.svg';
 import settingIcon from '../assets/setting_icon.svg';
+import { PersonaSwitcher } from './PersonaSwitcher';
 
 interface HeaderProps {
   onSettingsClick?: () => void;
+  onUsageClick?: () => void;
+  onHistoryClick?: () => void;
 }
 
-export const Header: React.FC<HeaderProps> = ({ onSettingsClick }) => {
+export const Header: React.FC<HeaderProps> = ({
+  onSettingsClick,
+  onUsageClick,
+  onHistoryClick,
+}) => {
   return (
     <div className="flex items-center justify-between px-3 bg-white border-b-[0.5px] border-b-gray-300">
       <div className="flex justify-between items-center gap-1.5">
@@ -14,17 +21,40 @@ export const Header: React.FC<HeaderProps> = ({ onSettingsClick }) => {
         <div className="pt-[7px] text-gray-700">AI小帮手</div>
       </div>
 
-      {onSettingsClick && (
-        <button
-          onClick={onSettingsClick}
-          className="bg-transparent border-neutral-300 rounded-full w-7 h-7 cursor-pointer flex items-center justify-center hover:bg-neutral-50 transition-colors"
-          title="设置"
-          aria-label="Open settings"
-        >
-          {/* <span className="text-xs">⚙️</span> */}
-          <img className="w-4 h-4" src={settingIcon} alt="settings icon" />
-        </button>
-      )}
+      <div className="flex items-center gap-1">
+        <PersonaSwitcher />
+        {onHistoryClick && (
+          <button
+            onClick={onHistoryClick}
+            className="bg-transparent border-neutral-300 rounded-full w-7 h-7 cursor-pointer flex items-center justify-center hover:bg-neutral-50 transition-colors"
+            title="历史记录"
+            aria-label="Open history"
+          >
+            <span className="text-sm">🕘</span>
+          </button>
+        )}
+        {onUsageClick && (
+          <button
+            onClick={onUsageClick}
+            className="bg-transparent border-neutral-300 rounded-full w-7 h-7 cursor-pointer flex items-center justify-center hover:bg-neutral-50 transition-colors"
+            title="用量统计"
+            aria-label="Open usage"
+          >
+            <span className="text-sm">📊</span>
+          </button>
+        )}
+        {onSettingsClick && (
+          <button
+            onClick={onSettingsClick}
+            className="bg-transparent border-neutral-300 rounded-full w-7 h-7 cursor-pointer flex items-center justify-center hover:bg-neutral-50 transition-colors"
+            title="设置"
+            aria-label="Open settings"
+          >
+            {/* <span className="text-xs">⚙️</span> */}
+            <img className="w-4 h-4" src={settingIcon} alt="settings icon" />
+          </button>
+        )}
+      </div>
     </div>
   );
 };
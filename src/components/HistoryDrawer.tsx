@@ -0,0 +1,267 @@
+import React, { useState, useEffect, useRef, memo } from 'react';
+import {
+  SOURCE_LABELS,
+  deleteConversation,
+  importConversations,
+  listConversations,
+  loadConversation,
+  loadConversationsForExport,
+  type ConversationSummary,
+} from '../services/conversationHistory';
+import {
+  EXPORT_FORMAT_LABELS,
+  downloadExportFile,
+  exportConversations,
+  parseConversationsImport,
+  type ExportFormat,
+} from '../services/conversationExport';
+import { useMessagesDispatch } from '../services/messageHooks';
+
+interface HistoryDrawerProps {
+  // 页面上当前打开的笔记，该笔记的会话排在最前面
+  currentNoteId?: string;
+  onClose: () => void;
+}
+
+// 历史会话列表，重新打开后可以继续对话
+const HistoryDrawerComponent: React.FC<HistoryDrawerProps> = ({
+  currentNoteId,
+  onClose,
+}) => {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('markdown');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const messageDispatch = useMessagesDispatch();
+
+  const refreshConversations = () =>
+    listConversations()
+      .then(setConversations)
+      .catch((err) => {
+        console.error('Failed to load conversations:', err);
+        setError('读取历史记录失败');
+      })
+      .finally(() => setIsLoaded(true));
+
+  useEffect(() => {
+    refreshConversations();
+  }, []);
+
+  const currentNoteConversations = currentNoteId
+    ? conversations.filter((item) => item.noteId === currentNoteId)
+    : [];
+  const otherConversations = conversations.filter(
+    (item) => !currentNoteConversations.includes(item)
+  );
+
+  const handleOpen = async (id: string) => {
+    try {
+      const messages = await loadConversation(id);
+      if (!messages) {
+        setError('该会话已被删除');
+        return;
+      }
+      messageDispatch?.({ type: 'restore', data: messages });
+      onClose();
+    } catch (err) {
+      console.error('Failed to open conversation:', err);
+      setError('打开会话失败');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteConversation(id);
+      setConversations((prev) => prev.filter((item) => item.id !== id));
+    } catch (err) {
+      console.error('Failed to delete conversation:', err);
+      setError('删除会话失败');
+    }
+  };
+
+  // 不传 id 时导出全部会话
+  const handleExport = async (id?: string) => {
+    setError('');
+    try {
+      const stored = await loadConversationsForExport(id ? [id] : undefined);
+      if (stored.length === 0) {
+        setError('没有可以导出的会话');
+        return;
+      }
+      downloadExportFile(exportConversations(stored, exportFormat));
+    } catch (err) {
+      console.error('Failed to export conversations:', err);
+      setError('导出失败');
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // 清空文件输入，允许再次选择同一个文件
+    event.target.value = '';
+    if (!file) return;
+
+    setError('');
+    setNotice('');
+    try {
+      const count = await importConversations(
+        parseConversationsImport(await file.text())
+      );
+      await refreshConversations();
+      setNotice(`已导入 ${count} 个会话`);
+    } catch (err) {
+      console.error('Failed to import conversations:', err);
+      setError(
+        `导入失败：${err instanceof Error ? err.message : '请检查文件内容'}`
+      );
+    }
+  };
+
+  const renderItem = (item: ConversationSummary) => (
+    <li
+      key={item.id}
+      className="group flex items-center gap-2 p-2 rounded-lg hover:bg-neutral-50 cursor-pointer"
+      onClick={() => handleOpen(item.id)}
+    >
+      {item.thumbnail ? (
+        <img
+          src={item.thumbnail}
+          alt=""
+          className="w-10 h-10 flex-shrink-0 object-cover rounded border border-neutral-200"
+        />
+      ) : (
+        <div className="w-10 h-10 flex-shrink-0 flex items-center justify-center rounded bg-neutral-100 text-base">
+          💬
+        </div>
+      )}
+      <div className="flex-1 min-w-0">
+        <div className="text-sm text-neutral-900 truncate">{item.title}</div>
+        <div className="text-micro text-neutral-500">
+          {SOURCE_LABELS[item.msgSource]} · {item.messageCount} 条消息 ·{' '}
+          {item.updatedAt.toLocaleString()}
+        </div>
+      </div>
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          handleExport(item.id);
+        }}
+        className="text-neutral-400 hover:text-xhs-red text-sm opacity-0 group-hover:opacity-100 transition-opacity"
+        title={`导出为 ${EXPORT_FORMAT_LABELS[exportFormat]}`}
+      >
+        ⬇
+      </button>
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          handleDelete(item.id);
+        }}
+        className="text-neutral-400 hover:text-red-600 text-sm opacity-0 group-hover:opacity-100 transition-opacity"
+        title="删除"
+      >
+        🗑
+      </button>
+    </li>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex justify-end z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white w-4/5 max-w-xs h-full overflow-y-auto relative"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Close button */}
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-neutral-500 hover:text-neutral-700 text-xl font-bold z-10"
+        >
+          ×
+        </button>
+
+        <div className="p-4">
+          <h3 className="text-lg font-semibold text-neutral-900 mb-4">
+            历史记录
+          </h3>
+
+          {/* 导出和导入 */}
+          <div className="flex items-center gap-2 mb-4 text-caption">
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+              className="px-2 py-1 border border-neutral-300 rounded focus:outline-none focus:border-xhs-red"
+              title="导出格式"
+            >
+              {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(
+                (format) => (
+                  <option key={format} value={format}>
+                    {EXPORT_FORMAT_LABELS[format]}
+                  </option>
+                )
+              )}
+            </select>
+            <button
+              onClick={() => handleExport()}
+              disabled={conversations.length === 0}
+              className="px-2 py-1 text-neutral-700 border border-neutral-300 rounded hover:bg-neutral-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              导出全部
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-2 py-1 text-neutral-700 border border-neutral-300 rounded hover:bg-neutral-50 transition-colors"
+              title="导入 JSON 格式导出的会话"
+            >
+              导入
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleImport}
+            />
+          </div>
+
+          {error && <p className="text-caption text-red-600 mb-3">{error}</p>}
+          {notice && (
+            <p className="text-caption text-green-600 mb-3">{notice}</p>
+          )}
+
+          {isLoaded && conversations.length === 0 && (
+            <p className="text-caption text-neutral-500">
+              还没有历史会话，收集页面内容或发送消息后会自动保存
+            </p>
+          )}
+
+          {currentNoteConversations.length > 0 && (
+            <section className="mb-4">
+              <h4 className="text-caption font-medium text-neutral-700 mb-1">
+                当前笔记
+              </h4>
+              <ul>{currentNoteConversations.map(renderItem)}</ul>
+            </section>
+          )}
+
+          {otherConversations.length > 0 && (
+            <section>
+              {currentNoteConversations.length > 0 && (
+                <h4 className="text-caption font-medium text-neutral-700 mb-1">
+                  其他会话
+                </h4>
+              )}
+              <ul>{otherConversations.map(renderItem)}</ul>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Export memoized component
+export const HistoryDrawer = memo(HistoryDrawerComponent);
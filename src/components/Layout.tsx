@@ -4,6 +4,8 @@ import { Header } from './Header';
 interface LayoutProps {
   children: React.ReactNode;
   onSettingsClick: () => void;
+  onUsageClick: () => void;
+  onHistoryClick: () => void;
 }
 
 export type TabType = 'chat' | 'settings';
@@ -17,11 +19,17 @@ interface Tab {
 export const Layout: React.FC<LayoutProps> = ({
   children,
   onSettingsClick,
+  onUsageClick,
+  onHistoryClick,
 }) => {
   return (
     <div className="flex flex-col h-screen max-w-sm mx-auto bg-chrome-bg">
       {/* Header */}
-      <Header onSettingsClick={onSettingsClick} />
+      <Header
+        onSettingsClick={onSettingsClick}
+        onUsageClick={onUsageClick}
+        onHistoryClick={onHistoryClick}
+      />
 
       {/* Content Area */}
         {children}
@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import {
+  createPersona,
+  parseWordList,
+  type Persona,
+} from '../services/personas';
+
+interface PersonaSettingsProps {
+  personas: Persona[];
+  activePersonaId?: string;
+  onChange: (personas: Persona[], activePersonaId?: string) => void;
+}
+
+// 逗号分隔的词语输入框，输入过程中保留原文，列表随输入更新
+const WordListInput: React.FC<{
+  value: string[];
+  onChange: (words: string[]) => void;
+  placeholder?: string;
+}> = ({ value, onChange, placeholder }) => {
+  const [text, setText] = useState(value.join('，'));
+  return (
+    <input
+      type="text"
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(parseWordList(e.target.value));
+      }}
+      placeholder={placeholder}
+      className="w-full px-3 py-1.5 text-sm border border-neutral-300 rounded-lg focus:border-xhs-red focus:outline-none"
+    />
+  );
+};
+
+// 账号人设：不同账号各自的语气、用词和话题
+export const PersonaSettings: React.FC<PersonaSettingsProps> = ({
+  personas,
+  activePersonaId,
+  onChange,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const updatePersona = (id: string, data: Partial<Persona>) => {
+    onChange(
+      personas.map((persona) =>
+        persona.id === id ? { ...persona, ...data } : persona
+      ),
+      activePersonaId
+    );
+  };
+
+  const addPersona = () => {
+    const persona = createPersona();
+    onChange([...personas, persona], activePersonaId);
+    setEditingId(persona.id);
+  };
+
+  const deletePersona = (id: string) => {
+    onChange(
+      personas.filter((persona) => persona.id !== id),
+      activePersonaId === id ? undefined : activePersonaId
+    );
+  };
+
+  return (
+    <section className="mb-6">
+      <h3 className="text-lg font-semibold text-neutral-900 mb-4">账号人设</h3>
+      <p className="mb-3 text-micro text-neutral-500">
+        为不同账号设置语气、用词和默认话题，选中的人设会用于所有笔记、评论和回复的生成，也可以在顶部快速切换
+      </p>
+
+      <ul className="space-y-2">
+        {personas.map((persona) => (
+          <li key={persona.id} className="border border-neutral-200 rounded-lg">
+            <div className="flex items-center gap-2 px-3 py-2">
+              <input
+                type="radio"
+                name="activePersona"
+                checked={persona.id === activePersonaId}
+                onChange={() => onChange(personas, persona.id)}
+                className="accent-xhs-red"
+                title="使用该人设"
+              />
+              <span className="flex-1 min-w-0 text-sm text-neutral-900 truncate">
+                {persona.name || '未命名人设'}
+              </span>
+              <button
+                onClick={() =>
+                  setEditingId(editingId === persona.id ? null : persona.id)
+                }
+                className="text-caption text-neutral-500 hover:text-xhs-red"
+              >
+                {editingId === persona.id ? '收起' : '编辑'}
+              </button>
+              <button
+                onClick={() => deletePersona(persona.id)}
+                className="text-neutral-400 hover:text-red-600"
+                title="删除"
+              >
+                ×
+              </button>
+            </div>
+
+            {editingId === persona.id && (
+              <div className="px-3 pb-3 space-y-2">
+                <input
+                  type="text"
+                  value={persona.name}
+                  onChange={(e) =>
+                    updatePersona(persona.id, { name: e.target.value })
+                  }
+                  placeholder="人设名称，如：美妆号"
+                  className="w-full px-3 py-1.5 text-sm border border-neutral-300 rounded-lg focus:border-xhs-red focus:outline-none"
+                />
+                <textarea
+                  value={persona.voice}
+                  onChange={(e) =>
+                    updatePersona(persona.id, { voice: e.target.value })
+                  }
+                  placeholder="语气和风格，如：像闺蜜聊天一样亲切，常用✨💄，结尾固定写“我是小美，下期见～”"
+                  rows={3}
+                  className="w-full px-3 py-1.5 text-sm border border-neutral-300 rounded-lg resize-y focus:border-xhs-red focus:outline-none"
+                />
+                <textarea
+                  value={persona.exampleNotes}
+                  onChange={(e) =>
+                    updatePersona(persona.id, { exampleNotes: e.target.value })
+                  }
+                  placeholder="示例笔记（可选），粘贴一两篇有代表性的笔记"
+                  rows={3}
+                  className="w-full px-3 py-1.5 text-sm border border-neutral-300 rounded-lg resize-y focus:border-xhs-red focus:outline-none"
+                />
+                <WordListInput
+                  value={persona.mustUseWords}
+                  onChange={(mustUseWords) =>
+                    updatePersona(persona.id, { mustUseWords })
+                  }
+                  placeholder="必须使用的词语，用逗号分隔"
+                />
+                <WordListInput
+                  value={persona.neverUseWords}
+                  onChange={(neverUseWords) =>
+                    updatePersona(persona.id, { neverUseWords })
+                  }
+                  placeholder="禁止使用的词语，用逗号分隔"
+                />
+                <WordListInput
+                  value={persona.hashtags}
+                  onChange={(hashtags) =>
+                    updatePersona(persona.id, { hashtags })
+                  }
+                  placeholder="笔记默认话题，如：#护肤 #平价好物"
+                />
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex items-center gap-3 mt-2">
+        <button
+          onClick={addPersona}
+          className="flex-1 py-1.5 text-caption text-neutral-700 border border-dashed border-neutral-300 rounded-lg hover:bg-neutral-50 transition-colors"
+        >
+          + 添加人设
+        </button>
+        {activePersonaId && (
+          <button
+            onClick={() => onChange(personas, undefined)}
+            className="text-caption text-neutral-500 hover:text-xhs-red"
+          >
+            不使用人设
+          </button>
+        )}
+      </div>
+    </section>
+  );
+};
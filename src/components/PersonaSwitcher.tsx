@@ -0,0 +1,33 @@
+import React from 'react';
+import { useAIConfig, useAIConfigDispatch } from '../services/aiConfigHooks';
+
+// 顶部的人设切换，未设置人设时不显示
+export const PersonaSwitcher: React.FC = () => {
+  const aiConfig = useAIConfig();
+  const dispatch = useAIConfigDispatch();
+  const personas = aiConfig.personas || [];
+
+  if (personas.length === 0) return null;
+
+  return (
+    <select
+      value={aiConfig.activePersonaId || ''}
+      onChange={(e) =>
+        dispatch({
+          type: 'update',
+          data: { activePersonaId: e.target.value || undefined },
+        })
+      }
+      className="max-w-24 px-1.5 py-0.5 text-caption text-neutral-700 bg-transparent border border-neutral-300 rounded-full cursor-pointer truncate focus:border-xhs-red focus:outline-none"
+      title="当前人设"
+      aria-label="Switch persona"
+    >
+      <option value="">不使用人设</option>
+      {personas.map((persona) => (
+        <option key={persona.id} value={persona.id}>
+          {persona.name || '未命名人设'}
+        </option>
+      ))}
+    </select>
+  );
+};
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import {
+  SELECTOR_FIELDS,
+  isValidSelector,
+  type SelectorCheck,
+  type SelectorDiagnostics,
+  type SelectorKey,
+  type SelectorOverrides,
+} from '../services/selectorRegistry';
+
+interface SelectorSettingsProps {
+  overrides: SelectorOverrides;
+  // 覆盖选择器是否是在旧版本的规则上添加的
+  isOutdated: boolean;
+  onChange: (key: SelectorKey, selector?: string) => void;
+}
+
+const PAGE_LABELS: Record<SelectorDiagnostics['page'], string> = {
+  publish: '发布页',
+  note: '笔记详情页',
+};
+
+// 页面元素适配：检测当前页面的选择器是否失效，并添加覆盖选择器
+export const SelectorSettings: React.FC<SelectorSettingsProps> = ({
+  overrides,
+  isOutdated,
+  onChange,
+}) => {
+  const [diagnostics, setDiagnostics] = useState<SelectorDiagnostics | null>(
+    null
+  );
+  const [isDiagnosing, setIsDiagnosing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 检测结果基于已保存的覆盖选择器，修改后需要保存再重新检测
+  const diagnose = async () => {
+    setIsDiagnosing(true);
+    setError(null);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: 'diagnoseSelectorsOnPage',
+      });
+      if (response?.success) {
+        setDiagnostics(response.data);
+      } else {
+        setDiagnostics(null);
+        setError(response?.error || '检测失败');
+      }
+    } catch (error) {
+      console.error('Selector diagnosis failed:', error);
+      setError((error as Error).message);
+    } finally {
+      setIsDiagnosing(false);
+    }
+  };
+
+  // 有检测结果时显示当前页面的全部元素，否则只显示已添加的覆盖选择器
+  const rows: { key: SelectorKey; check?: SelectorCheck }[] = diagnostics
+    ? diagnostics.checks.map((check) => ({ key: check.key, check }))
+    : (Object.keys(overrides) as SelectorKey[]).map((key) => ({ key }));
+  const missingCount =
+    diagnostics?.checks.filter((check) => !check.found && !check.optional)
+      .length || 0;
+
+  return (
+    <section className="mb-6">
+      <h3 className="text-lg font-semibold text-neutral-900 mb-4">
+        页面元素适配
+      </h3>
+      <p className="mb-3 text-micro text-neutral-500">
+        小红书改版后如果AI按钮不显示或无法填入内容，可以检测当前页面，并为找不到的元素添加自定义选择器
+      </p>
+      {isOutdated && (
+        <p className="mb-3 text-micro text-amber-600">
+          ⚠️
+          自定义选择器是在旧版本的规则上添加的，内置规则已更新，建议重新检测后确认是否仍然需要
+        </p>
+      )}
+      <button
+        onClick={diagnose}
+        disabled={isDiagnosing}
+        className="w-full mb-3 px-3 py-2 text-sm text-neutral-700 bg-white border border-neutral-300 rounded-lg hover:bg-neutral-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        {isDiagnosing ? '检测中...' : '检测当前页面'}
+      </button>
+      {error && <p className="mb-3 text-caption text-red-600">{error}</p>}
+      {diagnostics && (
+        <p
+          className={`mb-3 text-caption ${
+            missingCount > 0 ? 'text-red-600' : 'text-green-600'
+          }`}
+        >
+          {PAGE_LABELS[diagnostics.page]} · 规则版本 v{diagnostics.version} ·{' '}
+          {missingCount > 0 ? `${missingCount} 项元素未找到` : '全部元素正常'}
+        </p>
+      )}
+      {rows.map(({ key, check }) => {
+        const override = overrides[key];
+        const isInvalid = !!override?.trim() && !isValidSelector(override);
+        // 未找到的元素和已有覆盖选择器的元素直接显示输入框
+        const isEditing = override !== undefined || (check && !check.found);
+        return (
+          <div key={key} className="mb-2">
+            <div className="flex items-center gap-2 text-caption">
+              {check && <SelectorCheckIcon check={check} />}
+              <span className="text-neutral-900 shrink-0">
+                {SELECTOR_FIELDS[key].label}
+              </span>
+              <span
+                className="ml-auto text-micro text-neutral-500 truncate"
+                title={check?.matchedSelector}
+              >
+                {check &&
+                  (check.found
+                    ? check.matchedSelector
+                    : `未找到：已尝试 ${check.tried} 个选择器`)}
+              </span>
+              {!isEditing && (
+                <button
+                  onClick={() => onChange(key, '')}
+                  className="shrink-0 text-micro text-neutral-500 hover:text-neutral-700"
+                >
+                  自定义
+                </button>
+              )}
+            </div>
+            {isEditing && (
+              <div className="flex items-center gap-2 mt-1">
+                <input
+                  type="text"
+                  value={override || ''}
+                  onChange={(e) => onChange(key, e.target.value)}
+                  placeholder="自定义选择器，优先于内置规则尝试"
+                  className={`flex-1 px-2 py-1 text-caption font-mono bg-white border rounded focus:outline-none ${
+                    isInvalid
+                      ? 'border-red-400 focus:border-red-500'
+                      : 'border-neutral-300 focus:border-xhs-red'
+                  }`}
+                />
+                {override !== undefined && (
+                  <button
+                    onClick={() => onChange(key, undefined)}
+                    className="px-1 text-neutral-500 hover:text-red-600"
+                    title="移除"
+                  >
+                    ×
+                  </button>
+                )}
+              </div>
+            )}
+            {isInvalid && (
+              <p className="mt-0.5 text-micro text-red-600">选择器语法无效</p>
+            )}
+          </div>
+        );
+      })}
+      {diagnostics && (
+        <p className="mt-1 text-micro text-neutral-500">
+          保存后立即对已打开的页面生效，可再次检测确认
+        </p>
+      )}
+    </section>
+  );
+};
+
+// 诊断状态图标：找到为绿色，可选元素未找到为灰色，其余为红色
+const SelectorCheckIcon: React.FC<{ check: SelectorCheck }> = ({ check }) => {
+  if (check.found) {
+    return <span className="text-green-600">✓</span>;
+  }
+  if (check.optional) {
+    return (
+      <span className="text-neutral-400" title="当前页面可能本来就没有该元素">
+        –
+      </span>
+    );
+  }
+  return <span className="text-red-600">✗</span>;
+};
@@ -1,11 +1,81 @@
 import React, { useState, useEffect, memo } from 'react';
 import { useAIConfig, useAIConfigDispatch } from '../services/aiConfigHooks';
+import {
+  PROVIDER_LABELS,
+  PROVIDER_MODELS,
+  REASONING_EFFORT_LABELS,
+  REASONING_PROVIDERS,
+  defaultRetryPolicy,
+  getModelSettings,
+} from '../services/aiConfigTypes';
+import { AIService, type ConnectionTestResult } from '../services/AIService';
+import {
+  hasInvalidSelectorOverride,
+  loadSelectorOverrides,
+  saveSelectorOverrides,
+  type SelectorKey,
+  type SelectorOverrides,
+} from '../services/selectorRegistry';
+import { SelectorSettings } from './SelectorSettings';
+import { TemplateSettings } from './TemplateSettings';
+import type { PromptTemplates } from '../services/promptTemplates';
+import type { Persona } from '../services/personas';
+import { PersonaSettings } from './PersonaSettings';
+import type { ComplianceRule } from '../services/complianceRules';
+import { ComplianceSettings } from './ComplianceSettings';
+
+export type AIProvider =
+  'chatgpt' | 'claude' | 'gemini' | 'qwen' | 'kimi' | 'custom';
+
+export type ReasoningEffort = 'minimal' | 'low' | 'medium' | 'high';
+
+// 每个大模型各自的模型选择和生成参数
+export interface ModelSettings {
+  // 笔记生成使用的模型
+  model: string;
+  // 评论生成使用的模型，留空则与笔记模型相同
+  commentModel?: string;
+  // 留空则使用模型默认值
+  temperature?: number;
+  maxTokens: number;
+  reasoningEffort: ReasoningEffort;
+}
+
+// 请求失败时的自动重试策略（仅针对429、5xx和网络错误）
+export interface RetryPolicy {
+  maxRetries: number;
+  // 首次重试前的等待时间，之后每次翻倍并加入随机抖动
+  baseDelayMs: number;
+}
 
 export interface AIConfig {
-  provider: 'chatgpt' | 'claude' | 'gemini' | 'qwen' | 'kimi';
+  provider: AIProvider;
   apiKey: string;
+  // 每个大模型各自保存的 api key，用于切换模型和备用模型
+  apiKeys?: Partial<Record<AIProvider, string>>;
+  // 当前模型失败后按顺序尝试的备用模型
+  fallbackProviders?: AIProvider[];
+  retryPolicy?: RetryPolicy;
+  modelSettings?: Partial<Record<AIProvider, Partial<ModelSettings>>>;
+  // 自定义 OpenAI 兼容接口（DeepSeek、公司代理、本地 Ollama / LM Studio 等）
+  customBaseURL?: string;
+  customModel?: string;
+  // 额外请求头，每行一个 "Header-Name: value"
+  customHeaders?: string;
+  // 页面切换到其他笔记时自动重新收集内容，否则只提示
+  autoSwitchNote?: boolean;
+  // 自定义的快捷指令和系统提示词
+  promptTemplates?: PromptTemplates;
+  // 账号人设，选中的人设会附加到每次生成的系统提示词中
+  personas?: Persona[];
+  activePersonaId?: string;
+  // 违禁词规则，未设置时使用默认规则
+  complianceRules?: ComplianceRule[];
 }
 
+// 连通性测试的超时时间
+const CONNECTION_TEST_TIMEOUT_MS = 20000;
+
 interface SettingsPanelProps {
   onClose: () => void;
 }
@@ -17,37 +87,145 @@ const SettingsPanelComponent: React.FC<SettingsPanelProps> = ({ onClose }) => {
 
   const [isKeyVisible, setIsKeyVisible] = useState(false);
   const [isTestingConnection, setIsTestingConnection] = useState(false);
-  const [connectionStatus, setConnectionStatus] = useState<
-    'idle' | 'success' | 'error'
-  >('idle');
+  const [connectionResult, setConnectionResult] =
+    useState<ConnectionTestResult | null>(null);
+  // 页面元素的覆盖选择器保存在 chrome.storage，content script 也需要读取
+  const [selectorOverrides, setSelectorOverrides] = useState<SelectorOverrides>(
+    {}
+  );
+  const [isSelectorOverridesOutdated, setIsSelectorOverridesOutdated] =
+    useState(false);
+
+  useEffect(() => {
+    loadSelectorOverrides().then(({ overrides, isOutdated }) => {
+      setSelectorOverrides(overrides);
+      setIsSelectorOverridesOutdated(isOutdated);
+    });
+  }, []);
 
+  // 用当前填写（尚未保存）的配置发送最小请求，测试密钥、模型和网络是否可用
   const testConnection = async () => {
-    // if (!config.apiKey.trim()) {
-    //   setConnectionStatus('error');
-    //   return;
-    // }
-    // setIsTestingConnection(true);
-    // setConnectionStatus('idle');
-    // try {
-    //   // Simulate API test - in real implementation, this would test the actual API
-    //   await new Promise((resolve) => setTimeout(resolve, 2000));
-    //   // For demo purposes, randomly succeed or fail
-    //   const success = Math.random() > 0.3;
-    //   setConnectionStatus(success ? 'success' : 'error');
-    // } catch (error) {
-    //   console.error('Connection test failed:', error);
-    //   setConnectionStatus('error');
-    // } finally {
-    //   setIsTestingConnection(false);
-    // }
+    setIsTestingConnection(true);
+    setConnectionResult(null);
+    try {
+      const aiService = new AIService(config);
+      setConnectionResult(
+        await aiService.testConnection(
+          AbortSignal.timeout(CONNECTION_TEST_TIMEOUT_MS)
+        )
+      );
+    } catch (error) {
+      console.error('Connection test failed:', error);
+      setConnectionResult({
+        status: 'error',
+        message: error instanceof Error ? error.message : '连接失败',
+      });
+    } finally {
+      setIsTestingConnection(false);
+    }
   };
 
   const handleConfigChange = (field: keyof AIConfig, value: string) => {
     setConfig((prev) => ({ ...prev, [field]: value }));
     // Reset connection status when config changes
-    setConnectionStatus('idle');
+    setConnectionResult(null);
+  };
+
+  // 切换大模型时保存当前模型的 api key，并取出新模型已保存的 key
+  const handleProviderChange = (provider: AIProvider) => {
+    setConfig((prev) => ({
+      ...prev,
+      provider,
+      apiKey: prev.apiKeys?.[provider] || '',
+      apiKeys: { ...prev.apiKeys, [prev.provider]: prev.apiKey },
+    }));
+    setConnectionResult(null);
+  };
+
+  const handleSelectorOverrideChange = (
+    key: SelectorKey,
+    selector?: string
+  ) => {
+    setSelectorOverrides((prev) => {
+      const next = { ...prev };
+      if (selector === undefined) {
+        delete next[key];
+      } else {
+        next[key] = selector;
+      }
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    try {
+      await saveSelectorOverrides(selectorOverrides);
+    } catch (error) {
+      console.error('Failed to save selector overrides:', error);
+    }
+    dispatch({
+      type: 'update',
+      data: {
+        ...config,
+        apiKeys: { ...config.apiKeys, [config.provider]: config.apiKey },
+      },
+    });
+    onClose();
+  };
+
+  const fallbackProviders = (config.fallbackProviders || []).filter(
+    (provider) => provider !== config.provider
+  );
+  const availableFallbackProviders = (
+    Object.keys(PROVIDER_LABELS) as AIProvider[]
+  ).filter(
+    (provider) =>
+      provider !== config.provider && !fallbackProviders.includes(provider)
+  );
+
+  const updateFallbackProviders = (providers: AIProvider[]) => {
+    setConfig((prev) => ({ ...prev, fallbackProviders: providers }));
+  };
+
+  // 调整备用模型的顺序，direction 为 -1 上移、1 下移
+  const moveFallbackProvider = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= fallbackProviders.length) return;
+    const providers = [...fallbackProviders];
+    [providers[index], providers[target]] = [
+      providers[target],
+      providers[index],
+    ];
+    updateFallbackProviders(providers);
+  };
+
+  const retryPolicy = config.retryPolicy || defaultRetryPolicy;
+
+  // 修改当前大模型的生成参数，值为 undefined 时恢复默认
+  const handleModelSettingChange = <K extends keyof ModelSettings>(
+    field: K,
+    value: ModelSettings[K] | undefined
+  ) => {
+    setConfig((prev) => {
+      const providerSettings = { ...prev.modelSettings?.[prev.provider] };
+      if (value === undefined) {
+        delete providerSettings[field];
+      } else {
+        providerSettings[field] = value;
+      }
+      return {
+        ...prev,
+        modelSettings: {
+          ...prev.modelSettings,
+          [prev.provider]: providerSettings,
+        },
+      };
+    });
+    setConnectionResult(null);
   };
 
+  const modelSettings = getModelSettings(config);
+
   return (
     <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
       <div className="bg-white rounded-lg w-full max-w-md max-h-[80vh] overflow-y-auto m-4 relative">
@@ -75,20 +253,178 @@ const SettingsPanelComponent: React.FC<SettingsPanelProps> = ({ onClose }) => {
               <select
                 value={config.provider}
                 onChange={(e) =>
-                  handleConfigChange(
-                    'provider',
-                    e.target.value as AIConfig['provider']
-                  )
+                  handleProviderChange(e.target.value as AIProvider)
                 }
                 className="w-full px-3 py-2 text-sm bg-white border border-neutral-300 rounded-lg focus:border-xhs-red focus:outline-none"
               >
                 <option value="chatgpt">ChatGPT</option>
                 <option value="claude">Claude</option>
+                <option value="gemini">Gemini</option>
                 <option value="qwen">通义千问</option>
+                <option value="kimi">Kimi</option>
+                <option value="custom">自定义 (OpenAI 兼容接口)</option>
               </select>
             </div>
           </section>
 
+          {/* Model Settings */}
+          <section className="mb-6">
+            <h3 className="text-lg font-semibold text-neutral-900 mb-4">
+              模型参数
+            </h3>
+            <datalist id="provider-models">
+              {PROVIDER_MODELS[config.provider].map((model) => (
+                <option key={model} value={model} />
+              ))}
+            </datalist>
+            {config.provider !== 'custom' && (
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-neutral-700 mb-2">
+                  笔记生成模型
+                </label>
+                <input
+                  type="text"
+                  list="provider-models"
+                  value={modelSettings.model}
+                  onChange={(e) =>
+                    handleModelSettingChange('model', e.target.value)
+                  }
+                  className="w-full px-3 py-2 text-sm bg-white border border-neutral-300 rounded-lg focus:border-xhs-red focus:outline-none"
+                />
+              </div>
+            )}
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-neutral-700 mb-2">
+                评论生成模型
+              </label>
+              <input
+                type="text"
+                list="provider-models"
+                value={modelSettings.commentModel || ''}
+                onChange={(e) =>
+                  handleModelSettingChange('commentModel', e.target.value)
+                }
+                placeholder="留空则与笔记生成模型相同"
+                className="w-full px-3 py-2 text-sm bg-white border border-neutral-300 rounded-lg focus:border-xhs-red focus:outline-none"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3 mb-4">
+              <div>
+                <label className="block text-sm font-medium text-neutral-700 mb-2">
+                  温度
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  value={modelSettings.temperature ?? ''}
+                  onChange={(e) =>
+                    handleModelSettingChange(
+                      'temperature',
+                      e.target.value === '' ? undefined : Number(e.target.value)
+                    )
+                  }
+                  placeholder="默认"
+                  className="w-full px-3 py-2 text-sm bg-white border border-neutral-300 rounded-lg focus:border-xhs-red focus:outline-none"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-neutral-700 mb-2">
+                  最大输出 Token
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  step={256}
+                  value={modelSettings.maxTokens}
+                  onChange={(e) =>
+                    handleModelSettingChange(
+                      'maxTokens',
+                      Number(e.target.value) > 0
+                        ? Number(e.target.value)
+                        : undefined
+                    )
+                  }
+                  className="w-full px-3 py-2 text-sm bg-white border border-neutral-300 rounded-lg focus:border-xhs-red focus:outline-none"
+                />
+              </div>
+            </div>
+            {REASONING_PROVIDERS.includes(config.provider) && (
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-neutral-700 mb-2">
+                  推理强度
+                </label>
+                <select
+                  value={modelSettings.reasoningEffort}
+                  onChange={(e) =>
+                    handleModelSettingChange(
+                      'reasoningEffort',
+                      e.target.value as ReasoningEffort
+                    )
+                  }
+                  className="w-full px-3 py-2 text-sm bg-white border border-neutral-300 rounded-lg focus:border-xhs-red focus:outline-none"
+                >
+                  {(
+                    Object.keys(REASONING_EFFORT_LABELS) as ReasoningEffort[]
+                  ).map((effort) => (
+                    <option key={effort} value={effort}>
+                      {REASONING_EFFORT_LABELS[effort]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </section>
+
+          {/* Custom Endpoint Configuration */}
+          {config.provider === 'custom' && (
+            <section className="mb-6">
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-neutral-700 mb-2">
+                  接口地址 (Base URL)
+                </label>
+                <input
+                  type="text"
+                  value={config.customBaseURL || ''}
+                  onChange={(e) =>
+                    handleConfigChange('customBaseURL', e.target.value)
+                  }
+                  placeholder="如 https://api.deepseek.com/v1 或 http://localhost:11434/v1"
+                  className="w-full px-3 py-2 text-sm bg-white border border-neutral-300 rounded-lg focus:border-xhs-red focus:outline-none"
+                />
+              </div>
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-neutral-700 mb-2">
+                  模型名称
+                </label>
+                <input
+                  type="text"
+                  value={config.customModel || ''}
+                  onChange={(e) =>
+                    handleConfigChange('customModel', e.target.value)
+                  }
+                  placeholder="如 deepseek-chat 或 qwen2.5:7b"
+                  className="w-full px-3 py-2 text-sm bg-white border border-neutral-300 rounded-lg focus:border-xhs-red focus:outline-none"
+                />
+              </div>
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-neutral-700 mb-2">
+                  额外请求头（可选）
+                </label>
+                <textarea
+                  value={config.customHeaders || ''}
+                  onChange={(e) =>
+                    handleConfigChange('customHeaders', e.target.value)
+                  }
+                  placeholder={'每行一个，如\nX-Team-Id: xhs-ops'}
+                  rows={2}
+                  className="w-full px-3 py-2 text-sm bg-white border border-neutral-300 rounded-lg focus:border-xhs-red focus:outline-none resize-none"
+                />
+              </div>
+            </section>
+          )}
+
           {/* API Configuration */}
           <section className="mb-6">
             {/* API Key */}
@@ -101,7 +437,11 @@ const SettingsPanelComponent: React.FC<SettingsPanelProps> = ({ onClose }) => {
                   type={isKeyVisible ? 'text' : 'password'}
                   value={config.apiKey}
                   onChange={(e) => handleConfigChange('apiKey', e.target.value)}
-                  placeholder="请输入您的 API Key..."
+                  placeholder={
+                    config.provider === 'custom'
+                      ? '本地服务可留空'
+                      : '请输入您的 API Key...'
+                  }
                   className="w-full px-3 py-2 pr-10 text-sm bg-white border border-neutral-300 rounded-lg focus:border-xhs-red focus:outline-none"
                 />
                 <button
@@ -115,42 +455,214 @@ const SettingsPanelComponent: React.FC<SettingsPanelProps> = ({ onClose }) => {
             </div>
 
             {/* Test Connection */}
-            {/* <div className="flex items-center gap-3 mb-4">
+            <div className="flex items-center gap-3 mb-4">
               <button
                 onClick={testConnection}
-                disabled={!config.apiKey.trim() || isTestingConnection}
-                className="px-4 py-2 text-sm font-medium text-white bg-xhs-red rounded-lg hover:bg-xhs-red-hover disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                disabled={!isConfigComplete(config) || isTestingConnection}
+                className="shrink-0 px-4 py-2 text-sm font-medium text-white bg-xhs-red rounded-lg hover:bg-xhs-red-hover disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
               >
                 {isTestingConnection ? '测试中...' : '测试连通性'}
               </button>
 
-              {connectionStatus !== 'idle' && (
+              {connectionResult && (
                 <div className="flex items-center gap-2">
-                  {connectionStatus === 'success' && (
-                    <>
-                      <div className="w-3 h-3 bg-green-500 rounded-full"></div>
-                      <span className="text-sm text-green-600">连接成功</span>
-                    </>
-                  )}
-                  {connectionStatus === 'error' && (
-                    <>
-                      <div className="w-3 h-3 bg-red-500 rounded-full"></div>
-                      <span className="text-sm text-red-600">连接失败</span>
-                    </>
+                  <div
+                    className={`shrink-0 w-3 h-3 rounded-full ${
+                      connectionResult.status === 'success'
+                        ? 'bg-green-500'
+                        : connectionResult.status === 'no_vision'
+                          ? 'bg-amber-500'
+                          : 'bg-red-500'
+                    }`}
+                  ></div>
+                  <span
+                    className={`text-sm ${
+                      connectionResult.status === 'success'
+                        ? 'text-green-600'
+                        : connectionResult.status === 'no_vision'
+                          ? 'text-amber-600'
+                          : 'text-red-600'
+                    }`}
+                  >
+                    {connectionResult.message}
+                    {connectionResult.latencyMs !== undefined &&
+                      `（${connectionResult.latencyMs}ms）`}
+                  </span>
+                </div>
+              )}
+            </div>
+          </section>
+
+          {/* Retry & Fallback */}
+          <section className="mb-6">
+            <h3 className="text-lg font-semibold text-neutral-900 mb-4">
+              失败重试与备用模型
+            </h3>
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-neutral-700 mb-2">
+                自动重试次数
+              </label>
+              <input
+                type="number"
+                min={0}
+                max={5}
+                value={retryPolicy.maxRetries}
+                onChange={(e) =>
+                  setConfig((prev) => ({
+                    ...prev,
+                    retryPolicy: {
+                      ...retryPolicy,
+                      maxRetries: Math.min(
+                        Math.max(Number(e.target.value) || 0, 0),
+                        5
+                      ),
+                    },
+                  }))
+                }
+                className="w-full px-3 py-2 text-sm bg-white border border-neutral-300 rounded-lg focus:border-xhs-red focus:outline-none"
+              />
+              <p className="mt-1 text-micro text-neutral-500">
+                请求频率过高、服务器错误或网络异常时自动重试
+              </p>
+            </div>
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-neutral-700 mb-2">
+                备用模型（按顺序尝试）
+              </label>
+              {fallbackProviders.map((provider, index) => (
+                <div
+                  key={provider}
+                  className="flex items-center gap-2 mb-2 px-3 py-1.5 text-sm border border-neutral-300 rounded-lg"
+                >
+                  <span className="text-neutral-500">{index + 1}.</span>
+                  <span className="text-neutral-900">
+                    {PROVIDER_LABELS[provider]}
+                  </span>
+                  {!isProviderConfigured(config, provider) && (
+                    <span className="text-micro text-red-600">
+                      未保存 API Key
+                    </span>
                   )}
+                  <div className="ml-auto flex items-center gap-1 text-neutral-500">
+                    <button
+                      onClick={() => moveFallbackProvider(index, -1)}
+                      disabled={index === 0}
+                      className="px-1 hover:text-neutral-700 disabled:opacity-30"
+                      title="上移"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => moveFallbackProvider(index, 1)}
+                      disabled={index === fallbackProviders.length - 1}
+                      className="px-1 hover:text-neutral-700 disabled:opacity-30"
+                      title="下移"
+                    >
+                      ↓
+                    </button>
+                    <button
+                      onClick={() =>
+                        updateFallbackProviders(
+                          fallbackProviders.filter((p) => p !== provider)
+                        )
+                      }
+                      className="px-1 hover:text-red-600"
+                      title="移除"
+                    >
+                      ×
+                    </button>
+                  </div>
                 </div>
+              ))}
+              {availableFallbackProviders.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) =>
+                    updateFallbackProviders([
+                      ...fallbackProviders,
+                      e.target.value as AIProvider,
+                    ])
+                  }
+                  className="w-full px-3 py-2 text-sm bg-white border border-neutral-300 rounded-lg focus:border-xhs-red focus:outline-none"
+                >
+                  <option value="">+ 添加备用模型</option>
+                  {availableFallbackProviders.map((provider) => (
+                    <option key={provider} value={provider}>
+                      {PROVIDER_LABELS[provider]}
+                    </option>
+                  ))}
+                </select>
               )}
-            </div> */}
+              <p className="mt-1 text-micro text-neutral-500">
+                切换到对应模型并保存 API Key 后即可作为备用
+              </p>
+            </div>
+          </section>
+
+          {/* Note Switching */}
+          <section className="mb-6">
+            <h3 className="text-lg font-semibold text-neutral-900 mb-4">
+              笔记切换
+            </h3>
+            <label className="flex items-center gap-2 text-sm text-neutral-700">
+              <input
+                type="checkbox"
+                checked={!!config.autoSwitchNote}
+                onChange={(e) =>
+                  setConfig((prev) => ({
+                    ...prev,
+                    autoSwitchNote: e.target.checked,
+                  }))
+                }
+                className="accent-xhs-red"
+              />
+              页面切换到其他笔记时自动更新内容
+            </label>
+            <p className="mt-1 text-micro text-neutral-500">
+              关闭时会在对话上方提示，由你决定是否切换
+            </p>
           </section>
 
+          {/* Personas */}
+          <PersonaSettings
+            personas={config.personas || []}
+            activePersonaId={config.activePersonaId}
+            onChange={(personas, activePersonaId) =>
+              setConfig((prev) => ({ ...prev, personas, activePersonaId }))
+            }
+          />
+
+          {/* Prompt Templates */}
+          <TemplateSettings
+            templates={config.promptTemplates}
+            onChange={(promptTemplates) =>
+              setConfig((prev) => ({ ...prev, promptTemplates }))
+            }
+          />
+
+          {/* Compliance Rules */}
+          <ComplianceSettings
+            rules={config.complianceRules}
+            onChange={(complianceRules) =>
+              setConfig((prev) => ({ ...prev, complianceRules }))
+            }
+          />
+
+          {/* Page Selectors */}
+          <SelectorSettings
+            overrides={selectorOverrides}
+            isOutdated={isSelectorOverridesOutdated}
+            onChange={handleSelectorOverrideChange}
+          />
+
           {/* Action Buttons */}
           <div className="flex gap-3 pt-4 border-neutral-200">
             <button
-              onClick={() => {
-                dispatch({ type: 'update', data: config });
-                onClose();
-              }}
-              disabled={!config.apiKey.trim()}
+              onClick={handleSave}
+              disabled={
+                !isConfigComplete(config) ||
+                hasInvalidSelectorOverride(selectorOverrides)
+              }
               className="flex-1 px-4 py-2.5 text-sm font-medium text-white bg-xhs-red rounded-lg hover:bg-xhs-red-hover disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
               保存
@@ -169,5 +681,21 @@ const SettingsPanelComponent: React.FC<SettingsPanelProps> = ({ onClose }) => {
   );
 };
 
+// 检查配置是否可以保存：自定义接口需要地址和模型，其他需要 api key
+function isConfigComplete(config: AIConfig): boolean {
+  if (config.provider === 'custom') {
+    return !!config.customBaseURL?.trim() && !!config.customModel?.trim();
+  }
+  return !!config.apiKey.trim();
+}
+
+// 检查备用模型是否已经保存了可用的配置
+function isProviderConfigured(config: AIConfig, provider: AIProvider): boolean {
+  if (provider === 'custom') {
+    return !!config.customBaseURL && !!config.customModel;
+  }
+  return !!config.apiKeys?.[provider];
+}
+
 // Export memoized component
 export const SettingsPanel = memo(SettingsPanelComponent);
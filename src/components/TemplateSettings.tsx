@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import {
+  DEFAULT_QUICK_COMMANDS,
+  TEMPLATE_VARIABLES,
+  getQuickCommands,
+  type PromptTemplates,
+  type QuickCommand,
+} from '../services/promptTemplates';
+import { getOutputTask } from '../services/outputTasks';
+import type { MessageSource } from '../services/messageTypes';
+
+interface TemplateSettingsProps {
+  templates?: PromptTemplates;
+  onChange: (templates: PromptTemplates) => void;
+}
+
+const SOURCE_TABS: { source: MessageSource; label: string }[] = [
+  { source: 'post', label: '笔记文案' },
+  { source: 'comment', label: '评论' },
+  { source: 'reply', label: '回复评论' },
+];
+
+// 模板库：管理快捷指令和系统提示词
+export const TemplateSettings: React.FC<TemplateSettingsProps> = ({
+  templates,
+  onChange,
+}) => {
+  const [source, setSource] = useState<MessageSource>('post');
+
+  const commands = getQuickCommands(templates, source);
+  const isCustomized = !!templates?.quickCommands?.[source];
+  const systemPrompt = templates?.systemPrompts?.[source] || '';
+
+  const updateCommands = (next: QuickCommand[] | undefined) => {
+    const quickCommands = { ...templates?.quickCommands };
+    if (next === undefined) {
+      delete quickCommands[source];
+    } else {
+      quickCommands[source] = next;
+    }
+    onChange({ ...templates, quickCommands });
+  };
+
+  const updateCommand = (index: number, data: Partial<QuickCommand>) => {
+    updateCommands(
+      commands.map((command, i) =>
+        i === index ? { ...command, ...data } : command
+      )
+    );
+  };
+
+  // 调整指令的顺序，direction 为 -1 上移、1 下移
+  const moveCommand = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= commands.length) return;
+    const next = [...commands];
+    [next[index], next[target]] = [next[target], next[index]];
+    updateCommands(next);
+  };
+
+  const addCommand = () => {
+    updateCommands([
+      ...commands,
+      { id: `custom-${Date.now()}`, icon: '⭐', label: '', command: '' },
+    ]);
+  };
+
+  const handleSystemPromptChange = (value: string) => {
+    const systemPrompts = { ...templates?.systemPrompts };
+    if (value) {
+      systemPrompts[source] = value;
+    } else {
+      delete systemPrompts[source];
+    }
+    onChange({ ...templates, systemPrompts });
+  };
+
+  return (
+    <section className="mb-6">
+      <h3 className="text-lg font-semibold text-neutral-900 mb-4">模板库</h3>
+      <p className="mb-3 text-micro text-neutral-500">
+        自定义快捷指令和系统提示词，可以使用变量：
+        {TEMPLATE_VARIABLES.map((variable) => (
+          <code
+            key={variable.name}
+            className="mx-0.5 px-1 bg-neutral-100 rounded"
+            title={variable.label}
+          >
+            {`{{${variable.name}}}`}
+          </code>
+        ))}
+      </p>
+
+      <div className="flex gap-1 mb-3">
+        {SOURCE_TABS.map((tab) => (
+          <button
+            key={tab.source}
+            onClick={() => setSource(tab.source)}
+            className={`px-3 py-1 text-caption rounded-full border transition-colors ${
+              source === tab.source
+                ? 'text-white bg-xhs-red border-xhs-red'
+                : 'text-neutral-700 border-neutral-300 hover:bg-neutral-50'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Quick Commands */}
+      <div className="mb-4">
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-sm font-medium text-neutral-700">
+            快捷指令
+          </label>
+          {isCustomized && (
+            <button
+              onClick={() => updateCommands(undefined)}
+              className="text-micro text-neutral-500 hover:text-xhs-red"
+            >
+              恢复默认
+            </button>
+          )}
+        </div>
+        <ul className="space-y-2">
+          {commands.map((command, index) => (
+            <li
+              key={command.id}
+              className="p-2 border border-neutral-200 rounded-lg space-y-1"
+            >
+              <div className="flex items-center gap-1">
+                <input
+                  type="text"
+                  value={command.icon}
+                  onChange={(e) =>
+                    updateCommand(index, { icon: e.target.value })
+                  }
+                  className="w-9 px-1 py-1 text-sm text-center border border-neutral-300 rounded focus:border-xhs-red focus:outline-none"
+                  title="图标"
+                />
+                <input
+                  type="text"
+                  value={command.label}
+                  onChange={(e) =>
+                    updateCommand(index, { label: e.target.value })
+                  }
+                  placeholder="按钮名称"
+                  className="flex-1 min-w-0 px-2 py-1 text-sm border border-neutral-300 rounded focus:border-xhs-red focus:outline-none"
+                />
+                <button
+                  onClick={() => moveCommand(index, -1)}
+                  disabled={index === 0}
+                  className="px-1 text-neutral-500 hover:text-neutral-700 disabled:opacity-30"
+                  title="上移"
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() => moveCommand(index, 1)}
+                  disabled={index === commands.length - 1}
+                  className="px-1 text-neutral-500 hover:text-neutral-700 disabled:opacity-30"
+                  title="下移"
+                >
+                  ↓
+                </button>
+                <button
+                  onClick={() =>
+                    updateCommands(commands.filter((_, i) => i !== index))
+                  }
+                  className="px-1 text-neutral-400 hover:text-red-600"
+                  title="删除"
+                >
+                  ×
+                </button>
+              </div>
+              <textarea
+                value={command.command}
+                onChange={(e) =>
+                  updateCommand(index, { command: e.target.value })
+                }
+                placeholder="发送给AI的指令，如：请为《{{title}}》写一段开头"
+                rows={2}
+                className="w-full px-2 py-1 text-caption border border-neutral-300 rounded resize-y focus:border-xhs-red focus:outline-none"
+              />
+            </li>
+          ))}
+        </ul>
+        <button
+          onClick={addCommand}
+          className="mt-2 w-full py-1.5 text-caption text-neutral-700 border border-dashed border-neutral-300 rounded-lg hover:bg-neutral-50 transition-colors"
+        >
+          + 添加指令
+        </button>
+        {commands.length === 0 && (
+          <p className="mt-1 text-micro text-neutral-500">
+            已删除全部快捷指令，可以点击“恢复默认”找回默认的{' '}
+            {DEFAULT_QUICK_COMMANDS[source].length} 个指令
+          </p>
+        )}
+      </div>
+
+      {/* System Prompt */}
+      <div>
+        <label className="block text-sm font-medium text-neutral-700 mb-2">
+          系统提示词
+        </label>
+        <textarea
+          value={systemPrompt}
+          onChange={(e) => handleSystemPromptChange(e.target.value)}
+          placeholder={getOutputTask(source).systemPrompt}
+          rows={6}
+          className="w-full px-3 py-2 text-caption border border-neutral-300 rounded-lg resize-y focus:border-xhs-red focus:outline-none"
+        />
+        <p className="mt-1 text-micro text-neutral-500">
+          留空使用默认提示词（见输入框中的灰色文字），字数限制仍按默认规则生效
+        </p>
+      </div>
+    </section>
+  );
+};
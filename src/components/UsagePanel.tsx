@@ -0,0 +1,353 @@
+import React, { useState, useEffect, memo } from 'react';
+import type { AIProvider } from './SettingsPanel';
+import { PROVIDER_LABELS } from '../services/aiConfigTypes';
+import {
+  BUDGET_WARNING_RATIO,
+  clearUsageLedger,
+  defaultUsageSettings,
+  formatCost,
+  getDateKey,
+  loadUsageLedger,
+  loadUsageSettings,
+  saveUsageSettings,
+  summarizeUsage,
+  totalUsage,
+  type ModelPrice,
+  type UsageEntry,
+  type UsageLedger,
+  type UsageSettings,
+} from '../services/usageLedger';
+
+interface UsagePanelProps {
+  onClose: () => void;
+}
+
+const UsagePanelComponent: React.FC<UsagePanelProps> = ({ onClose }) => {
+  const [ledger, setLedger] = useState<UsageLedger>({});
+  const [settings, setSettings] = useState<UsageSettings>(defaultUsageSettings);
+  const [newModel, setNewModel] = useState('');
+  const [isSaved, setIsSaved] = useState(false);
+
+  useEffect(() => {
+    loadUsageLedger().then(setLedger);
+    loadUsageSettings().then(setSettings);
+
+    // 面板打开期间有新的生成时同步刷新
+    const storageListener = (changes: {
+      [key: string]: chrome.storage.StorageChange;
+    }) => {
+      if (changes.usageLedger) {
+        setLedger((changes.usageLedger.newValue as UsageLedger) || {});
+      }
+    };
+    chrome.storage.local.onChanged.addListener(storageListener);
+    return () => chrome.storage.local.onChanged.removeListener(storageListener);
+  }, []);
+
+  const todayKey = getDateKey();
+  const monthKey = todayKey.slice(0, 7);
+  const todayTotal = totalUsage(summarizeUsage(ledger, todayKey));
+  const monthSummary = summarizeUsage(ledger, monthKey);
+  const monthTotal = totalUsage(monthSummary);
+  const monthDays = Object.keys(ledger)
+    .filter((dateKey) => dateKey.startsWith(monthKey))
+    .sort()
+    .reverse();
+
+  const budget = settings.monthlyBudget;
+  const budgetRatio = budget ? monthTotal.cost / budget : 0;
+
+  const handlePriceChange = (
+    model: string,
+    field: keyof ModelPrice,
+    value: number
+  ) => {
+    setSettings((prev) => ({
+      ...prev,
+      prices: {
+        ...prev.prices,
+        [model]: {
+          ...(prev.prices[model] || { input: 0, output: 0 }),
+          [field]: value,
+        },
+      },
+    }));
+    setIsSaved(false);
+  };
+
+  const handleAddModel = () => {
+    const model = newModel.trim();
+    if (!model || settings.prices[model]) return;
+    handlePriceChange(model, 'input', 0);
+    setNewModel('');
+  };
+
+  const handleRemoveModel = (model: string) => {
+    setSettings((prev) => {
+      const prices = { ...prev.prices };
+      delete prices[model];
+      return { ...prev, prices };
+    });
+    setIsSaved(false);
+  };
+
+  const handleSave = async () => {
+    await saveUsageSettings(settings);
+    setIsSaved(true);
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('确定要清空所有用量记录吗？')) return;
+    await clearUsageLedger();
+    setLedger({});
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg w-full max-w-md max-h-[80vh] overflow-y-auto m-4 relative">
+        {/* Close button */}
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-neutral-500 hover:text-neutral-700 text-xl font-bold z-10"
+        >
+          ×
+        </button>
+
+        <div className="p-6">
+          {/* Overview */}
+          <section className="mb-6">
+            <h3 className="text-lg font-semibold text-neutral-900 mb-4">
+              用量统计
+            </h3>
+            <div className="grid grid-cols-2 gap-3 mb-4">
+              <UsageCard title="今日" entry={todayTotal} />
+              <UsageCard title="本月" entry={monthTotal} />
+            </div>
+
+            {/* Monthly Budget */}
+            {budget ? (
+              <div className="mb-4">
+                <div className="flex justify-between text-caption text-neutral-700 mb-1">
+                  <span>本月预算</span>
+                  <span>
+                    {formatCost(monthTotal.cost)} / {formatCost(budget)}
+                  </span>
+                </div>
+                <div className="h-2 bg-neutral-100 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full rounded-full ${
+                      budgetRatio >= 1
+                        ? 'bg-red-500'
+                        : budgetRatio >= BUDGET_WARNING_RATIO
+                          ? 'bg-amber-500'
+                          : 'bg-green-500'
+                    }`}
+                    style={{ width: `${Math.min(budgetRatio, 1) * 100}%` }}
+                  ></div>
+                </div>
+                {budgetRatio >= 1 ? (
+                  <p className="mt-1 text-micro text-red-600">
+                    ⚠️ 本月费用已超出预算
+                  </p>
+                ) : (
+                  budgetRatio >= BUDGET_WARNING_RATIO && (
+                    <p className="mt-1 text-micro text-amber-600">
+                      ⚠️ 本月费用已达到预算的 {Math.round(budgetRatio * 100)}%
+                    </p>
+                  )
+                )}
+              </div>
+            ) : null}
+
+            {/* Per Provider */}
+            {Object.keys(monthSummary).length > 0 ? (
+              <table className="w-full text-caption mb-4">
+                <thead>
+                  <tr className="text-neutral-500 text-left">
+                    <th className="font-normal py-1">大模型</th>
+                    <th className="font-normal py-1 text-right">次数</th>
+                    <th className="font-normal py-1 text-right">Tokens</th>
+                    <th className="font-normal py-1 text-right">费用</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(
+                    Object.entries(monthSummary) as [AIProvider, UsageEntry][]
+                  ).map(([provider, entry]) => (
+                    <tr key={provider} className="border-t border-neutral-100">
+                      <td className="py-1 text-neutral-900">
+                        {PROVIDER_LABELS[provider]}
+                      </td>
+                      <td className="py-1 text-right">{entry.requests}</td>
+                      <td className="py-1 text-right">
+                        {(
+                          entry.inputTokens + entry.outputTokens
+                        ).toLocaleString()}
+                      </td>
+                      <td className="py-1 text-right">
+                        {formatCost(entry.cost)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-caption text-neutral-500 mb-4">
+                本月还没有用量记录
+              </p>
+            )}
+
+            {/* Per Day */}
+            {monthDays.length > 0 && (
+              <div className="mb-4">
+                <div className="text-sm font-medium text-neutral-700 mb-2">
+                  每日费用
+                </div>
+                {monthDays.map((dateKey) => {
+                  const dayTotal = totalUsage(ledger[dateKey]);
+                  return (
+                    <div
+                      key={dateKey}
+                      className="flex justify-between text-caption text-neutral-700 py-0.5"
+                    >
+                      <span>{dateKey}</span>
+                      <span>
+                        {dayTotal.requests} 次 · {formatCost(dayTotal.cost)}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </section>
+
+          {/* Budget & Prices */}
+          <section className="mb-6">
+            <h3 className="text-lg font-semibold text-neutral-900 mb-4">
+              预算与价格
+            </h3>
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-neutral-700 mb-2">
+                每月预算（元）
+              </label>
+              <input
+                type="number"
+                min={0}
+                value={settings.monthlyBudget ?? ''}
+                onChange={(e) => {
+                  setSettings((prev) => ({
+                    ...prev,
+                    monthlyBudget:
+                      Number(e.target.value) > 0
+                        ? Number(e.target.value)
+                        : undefined,
+                  }));
+                  setIsSaved(false);
+                }}
+                placeholder="不设置则不提醒"
+                className="w-full px-3 py-2 text-sm bg-white border border-neutral-300 rounded-lg focus:border-xhs-red focus:outline-none"
+              />
+            </div>
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-neutral-700 mb-2">
+                模型价格（元 / 百万 tokens，输入 / 输出）
+              </label>
+              {Object.entries(settings.prices).map(([model, price]) => (
+                <div key={model} className="flex items-center gap-2 mb-1.5">
+                  <span
+                    className="flex-1 text-caption text-neutral-900 truncate"
+                    title={model}
+                  >
+                    {model}
+                  </span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={price.input}
+                    onChange={(e) =>
+                      handlePriceChange(model, 'input', Number(e.target.value))
+                    }
+                    className="w-16 px-2 py-1 text-caption bg-white border border-neutral-300 rounded focus:border-xhs-red focus:outline-none"
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={price.output}
+                    onChange={(e) =>
+                      handlePriceChange(model, 'output', Number(e.target.value))
+                    }
+                    className="w-16 px-2 py-1 text-caption bg-white border border-neutral-300 rounded focus:border-xhs-red focus:outline-none"
+                  />
+                  <button
+                    onClick={() => handleRemoveModel(model)}
+                    className="px-1 text-neutral-500 hover:text-red-600"
+                    title="移除"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+              <div className="flex gap-2 mt-2">
+                <input
+                  type="text"
+                  value={newModel}
+                  onChange={(e) => setNewModel(e.target.value)}
+                  placeholder="添加模型名称，如 deepseek-chat"
+                  className="flex-1 px-3 py-1.5 text-caption bg-white border border-neutral-300 rounded-lg focus:border-xhs-red focus:outline-none"
+                />
+                <button
+                  onClick={handleAddModel}
+                  disabled={!newModel.trim()}
+                  className="px-3 py-1.5 text-caption text-neutral-700 bg-white border border-neutral-300 rounded-lg hover:bg-neutral-50 disabled:opacity-50"
+                >
+                  添加
+                </button>
+              </div>
+              <p className="mt-1 text-micro text-neutral-500">
+                默认价格按官网标价折算，仅供参考；修改后对之后的生成生效
+              </p>
+            </div>
+          </section>
+
+          {/* Action Buttons */}
+          <div className="flex gap-3 pt-4 border-neutral-200">
+            <button
+              onClick={handleSave}
+              className="flex-1 px-4 py-2.5 text-sm font-medium text-white bg-xhs-red rounded-lg hover:bg-xhs-red-hover transition-colors"
+            >
+              {isSaved ? '已保存' : '保存'}
+            </button>
+            <button
+              onClick={handleClear}
+              className="px-4 py-2.5 text-sm font-medium text-neutral-700 bg-white border border-neutral-300 rounded-lg hover:bg-neutral-50 transition-colors"
+            >
+              清空记录
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// 今日 / 本月用量卡片
+const UsageCard: React.FC<{ title: string; entry: UsageEntry }> = ({
+  title,
+  entry,
+}) => (
+  <div className="p-3 rounded-lg border border-neutral-200 bg-neutral-50">
+    <div className="text-micro text-neutral-500 mb-1">{title}</div>
+    <div className="text-lg font-semibold text-neutral-900">
+      {formatCost(entry.cost)}
+    </div>
+    <div className="text-micro text-neutral-500">
+      {entry.requests} 次 ·{' '}
+      {(entry.inputTokens + entry.outputTokens).toLocaleString()} tokens
+    </div>
+  </div>
+);
+
+// Export memoized component
+export const UsagePanel = memo(UsagePanelComponent);
@@ -0,0 +1,221 @@
+import { queryFieldAll } from './selectors';
+
+// 等待话题联想列表出现的最长时间
+const TOPIC_SUGGESTION_TIMEOUT_MS = 1500;
+
+// 正文中的话题，如 "#旅行#" 或 "#旅行"；# 需要在行首或空白之后并紧跟文字，
+// 避免把 "C#"、链接中的 "/#/" 或单独的 "#" 当作话题
+const TOPIC_PATTERN = /(?<=^|\s)#([\p{L}\p{N}_]+)#?/gu;
+
+type ContentSegment =
+  { type: 'text'; text: string } | { type: 'topic'; name: string };
+
+// 写入正文使用的方式：编辑器输入流程、模拟粘贴、直接修改 DOM
+export type InsertMethod = 'input' | 'paste' | 'dom';
+
+// 把正文写入发布页的 Slate 编辑器，每行一个段落
+// 优先走编辑器自己的输入流程（beforeinput），让页面的编辑器状态同步更新，
+// 话题尽量通过话题联想列表转换为真正的话题标签
+export async function insertEditorContent(
+  editable: HTMLElement,
+  content: string
+): Promise<InsertMethod> {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+
+  if (await insertWithInputEvents(editable, lines)) {
+    return 'input';
+  }
+  console.warn('Content Script: 输入流程写入失败，改用粘贴方式');
+
+  if (await insertWithPaste(editable, lines)) {
+    return 'paste';
+  }
+  console.warn('Content Script: 粘贴方式写入失败，直接修改编辑器 DOM');
+
+  insertWithDOM(editable, lines);
+  return 'dom';
+}
+
+// 通过 execCommand 产生真实的 beforeinput 事件，由 Slate 自己处理插入
+async function insertWithInputEvents(
+  editable: HTMLElement,
+  lines: string[]
+): Promise<boolean> {
+  if (!document.queryCommandSupported?.('insertText')) {
+    return false;
+  }
+
+  selectAllContent(editable);
+  document.execCommand('delete');
+  await nextFrame();
+
+  for (let i = 0; i < lines.length; i++) {
+    if (i > 0) {
+      document.execCommand('insertParagraph');
+      await nextFrame();
+    }
+    const segments = splitTopics(lines[i]);
+    for (let j = 0; j < segments.length; j++) {
+      const segment = segments[j];
+      if (segment.type === 'topic') {
+        await insertTopic(
+          editable,
+          segment.name,
+          needsSeparator(segments[j + 1])
+        );
+      } else if (segment.text) {
+        document.execCommand('insertText', false, segment.text);
+      }
+      // 等编辑器渲染完成，下一次输入的光标位置才正确
+      await nextFrame();
+    }
+  }
+
+  return containsAllText(editable, lines);
+}
+
+// 输入 "#话题" 后从联想列表中选择同名话题，找不到时保留为普通文字，
+// separator 为 true 时在后面补一个空格，和后面的文字分开
+async function insertTopic(
+  editable: HTMLElement,
+  name: string,
+  separator: boolean
+) {
+  document.execCommand('insertText', false, `#${name}`);
+
+  const suggestion = await waitForTopicSuggestion(name);
+  if (suggestion) {
+    suggestion.dispatchEvent(new MouseEvent('mousedown', { bubbles: true }));
+    suggestion.click();
+    return;
+  }
+
+  // 关闭联想列表，避免后续输入被当作话题搜索
+  editable.dispatchEvent(
+    new KeyboardEvent('keydown', { key: 'Escape', bubbles: true })
+  );
+  if (separator) {
+    document.execCommand('insertText', false, ' ');
+  }
+}
+
+// 话题后面紧跟文字时需要空格分开，行尾或后面已有空白时不需要
+function needsSeparator(next?: ContentSegment): boolean {
+  return next?.type === 'text' && /^\S/.test(next.text);
+}
+
+function waitForTopicSuggestion(name: string): Promise<HTMLElement | null> {
+  return new Promise((resolve) => {
+    const start = Date.now();
+    const check = () => {
+      const items = queryFieldAll('topicSuggestion');
+      const match =
+        items.find((item) => getTopicName(item) === name) ||
+        items.find((item) => getTopicName(item).startsWith(name));
+      if (match) {
+        resolve(match);
+      } else if (Date.now() - start > TOPIC_SUGGESTION_TIMEOUT_MS) {
+        resolve(null);
+      } else {
+        setTimeout(check, 100);
+      }
+    };
+    check();
+  });
+}
+
+// 联想列表项的文字形如 "#旅行 1.2亿次浏览"
+function getTopicName(item: HTMLElement): string {
+  return (item.textContent || '').trim().replace(/^#/, '').split(/\s/)[0];
+}
+
+// 模拟粘贴纯文本和段落 HTML，Slate 处理粘贴时会按行拆分段落
+async function insertWithPaste(
+  editable: HTMLElement,
+  lines: string[]
+): Promise<boolean> {
+  selectAllContent(editable);
+
+  const clipboardData = new DataTransfer();
+  clipboardData.setData('text/plain', lines.join('\n'));
+  clipboardData.setData(
+    'text/html',
+    lines.map((line) => `<p>${escapeHTML(line) || '<br>'}</p>`).join('')
+  );
+  const event = new ClipboardEvent('paste', {
+    clipboardData,
+    bubbles: true,
+    cancelable: true,
+  });
+  editable.dispatchEvent(event);
+
+  // 编辑器处理了粘贴才会阻止默认行为
+  if (!event.defaultPrevented) {
+    return false;
+  }
+  await nextFrame();
+  return containsAllText(editable, lines);
+}
+
+// 最后的兜底：直接替换可编辑区域的段落元素，编辑器状态可能不会同步
+function insertWithDOM(editable: HTMLElement, lines: string[]) {
+  editable.replaceChildren(
+    ...lines.map((line) => {
+      const p = document.createElement('p');
+      p.setAttribute('data-slate-node', 'element');
+      p.setAttribute('data-slate-object', 'block');
+      p.textContent = line;
+      return p;
+    })
+  );
+  ['focus', 'input', 'change'].forEach((eventType) => {
+    editable.dispatchEvent(new Event(eventType, { bubbles: true }));
+  });
+}
+
+function splitTopics(line: string): ContentSegment[] {
+  const segments: ContentSegment[] = [];
+  let lastIndex = 0;
+  for (const match of line.matchAll(TOPIC_PATTERN)) {
+    segments.push({ type: 'text', text: line.slice(lastIndex, match.index) });
+    segments.push({ type: 'topic', name: match[1] });
+    lastIndex = match.index + match[0].length;
+  }
+  segments.push({ type: 'text', text: line.slice(lastIndex) });
+  return segments;
+}
+
+function selectAllContent(editable: HTMLElement) {
+  editable.focus();
+  const selection = window.getSelection();
+  if (selection) {
+    selection.selectAllChildren(editable);
+  }
+}
+
+// 检查正文中的普通文字是否都已写入编辑器（话题可能被转换为话题标签）
+function containsAllText(editable: HTMLElement, lines: string[]): boolean {
+  const editorText = normalizeText(editable.textContent || '');
+  return lines
+    .flatMap(splitTopics)
+    .every(
+      (segment) =>
+        segment.type === 'topic' ||
+        editorText.includes(normalizeText(segment.text))
+    );
+}
+
+// 忽略空白和 Slate 用于占位的零宽字符
+function normalizeText(text: string): string {
+  return text.replace(/[\s\u200b\ufeff]+/g, '');
+}
+
+function escapeHTML(text: string): string {
+  const div = document.createElement('div');
+  div.textContent = text;
+  return div.innerHTML;
+}
+
+function nextFrame(): Promise<void> {
+  return new Promise((resolve) => requestAnimationFrame(() => resolve()));
+}
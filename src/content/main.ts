@@ -1,9 +1,27 @@
 import aiAuto_icon from '../assets/aiAuto_icon.svg';
 import { convertImageElementToBase64 } from '../utils/imageUtils';
+import type {
+  CollectedComment,
+  CommentInfo,
+  NoteMetadata,
+  ReplyTarget,
+} from '../services/messageTypes';
+import type { SelectorKey } from '../services/selectorRegistry';
+import {
+  describeMissingField,
+  diagnoseSelectors,
+  fieldSelector,
+  initSelectorOverrides,
+  queryField,
+  queryFieldAll,
+} from './selectors';
+import { getNoteIdFromUrl, watchNoteNavigation } from './noteNavigation';
+import { insertEditorContent } from './editorInsertion';
 
 class DOMWatcher {
   private observer: MutationObserver | null = null;
-  private callbacks: Map<string, (element: HTMLElement) => void> = new Map();
+  private callbacks: Map<SelectorKey, (element: HTMLElement) => void> =
+    new Map();
 
   constructor() {
     this.observer = new MutationObserver((mutations) => {
@@ -22,29 +40,36 @@ class DOMWatcher {
 
   private checkElement(element: HTMLElement): void {
     // 检查当前元素
-    this.callbacks.forEach((callback, selector) => {
-      if (element.matches && element.matches(selector)) {
+    this.callbacks.forEach((callback, key) => {
+      if (element.matches && element.matches(fieldSelector(key))) {
         callback(element);
       }
     });
 
-    // 检查子元素
-    this.callbacks.forEach((callback, selector) => {
-      const found = element.querySelector(selector) as HTMLElement;
-      if (found) {
-        callback(found);
-      }
+    // 检查子元素（如评论列表一次加载多条评论）
+    this.callbacks.forEach((callback, key) => {
+      element
+        .querySelectorAll<HTMLElement>(fieldSelector(key))
+        .forEach(callback);
     });
   }
 
-  watch(selector: string, callback: (element: HTMLElement) => void): void {
-    this.callbacks.set(selector, callback);
+  watch(key: SelectorKey, callback: (element: HTMLElement) => void): void {
+    this.callbacks.set(key, callback);
 
     // 检查现有元素
-    const existing = document.querySelector(selector) as HTMLElement;
-    if (existing) {
-      callback(existing);
-    }
+    document
+      .querySelectorAll<HTMLElement>(fieldSelector(key))
+      .forEach(callback);
+  }
+
+  // 重新检查现有元素，覆盖选择器修改后调用
+  rescan(): void {
+    this.callbacks.forEach((callback, key) => {
+      document
+        .querySelectorAll<HTMLElement>(fieldSelector(key))
+        .forEach(callback);
+    });
   }
 
   start(): void {
@@ -72,15 +97,45 @@ export interface PostData {
 }
 
 export interface CommentData {
+  // 收集内容所在的笔记
+  noteId?: string;
   title: string;
   content: string;
   images: string[];
+  // 视频笔记的 images 为视频封面和截取的画面
+  mediaType: 'image' | 'video';
+  metadata: NoteMetadata;
+  topComments: CollectedComment[];
+}
+
+// 最多收集的已有评论数量
+const MAX_TOP_COMMENTS = 10;
+
+// 切换笔记后等待新笔记内容加载的最长时间
+const NOTE_LOAD_TIMEOUT_MS = 3000;
+
+// 视频笔记截取的画面数量（不含封面）
+const VIDEO_FRAME_COUNT = 4;
+const MAX_VIDEO_FRAME_WIDTH = 1280;
+const VIDEO_EVENT_TIMEOUT_MS = 3000;
+
+export interface ReplyData extends CommentData {
+  replyTarget: ReplyTarget;
 }
 
+// 应用到页面前被覆盖的字段内容，未应用的字段为 undefined
+interface ApplySnapshot {
+  title?: string;
+  content?: string;
+}
+
+// 每次应用的快照，页面刷新后丢失
+const applySnapshots = new Map<string, ApplySnapshot>();
+
 // 使用方法
 const domWatcher = new DOMWatcher();
 // genetate post
-domWatcher.watch('.post-page .title.setting', (element) => {
+domWatcher.watch('postTitleBar', (element) => {
   console.log('找到目标元素:', element);
 
   // 检查是否已经添加了AI按钮，避免重复添加
@@ -124,52 +179,114 @@ domWatcher.watch('.post-page .title.setting', (element) => {
 });
 
 // generate comment
-domWatcher.watch(
-  '.note-container .interaction-container .engage-bar-container .left-icon-area',
-  (element) => {
-    console.log('找到目标元素:', element);
+domWatcher.watch('noteEngageBar', (element) => {
+  console.log('找到目标元素:', element);
+
+  // 检查是否已经添加了AI按钮，避免重复添加
+  if (element.querySelector('.ai-assistant-button')) {
+    return;
+  }
+
+  // 创建AI帮手按钮
+  const aiButton = createAIAssistantButton();
+  aiButton.classList.add('ai-assistant-button');
 
-    // 检查是否已经添加了AI按钮，避免重复添加
-    if (element.querySelector('.ai-assistant-button')) {
+  // 添加点击事件
+  aiButton.addEventListener('click', async () => {
+    console.log('AI帮手按钮被点击');
+    // 检查是否处于禁用状态
+    if (aiButton.dataset.disabled === 'true') {
       return;
     }
+    await sendCommentPageContent();
+  });
 
-    // 创建AI帮手按钮
-    const aiButton = createAIAssistantButton();
-    aiButton.classList.add('ai-assistant-button');
-
-    // 添加点击事件
-    aiButton.addEventListener('click', async () => {
-      console.log('AI帮手按钮被点击');
-      // 检查是否处于禁用状态
-      if (aiButton.dataset.disabled === 'true') {
-        return;
-      }
-      try {
-        // 收集页面内容
-        const collectedData = await collectCommentPageContent();
-        // 发送消息给sidepanel
-        const response = await chrome.runtime.sendMessage({
-          action: 'commentContentCollected',
-          data: {
-            timestamp: new Date().toISOString(),
-            url: window.location.href,
-            content: collectedData,
-          },
-        });
-        console.log('内容收集完成:', response);
-      } catch (error) {
-        console.error('内容收集失败:', error);
-      }
-    });
+  // 将按钮添加到目标元素
+  element.appendChild(aiButton);
+});
 
-    // 将按钮添加到目标元素
-    element.appendChild(aiButton);
+// generate reply
+domWatcher.watch('commentActions', (element) => {
+  // 检查是否已经添加了AI按钮，避免重复添加
+  if (element.querySelector('.ai-assistant-button')) {
+    return;
   }
-);
+
+  // 创建AI帮手按钮，评论区的按钮尺寸小一些
+  const aiButton = createAIAssistantButton(18);
+  aiButton.classList.add('ai-assistant-button');
+
+  // 添加点击事件
+  aiButton.addEventListener('click', async (event) => {
+    // 避免触发评论本身的点击（展开回复框）
+    event.stopPropagation();
+    if (aiButton.dataset.disabled === 'true') {
+      return;
+    }
+    const commentItem = element.closest<HTMLElement>(
+      fieldSelector('commentItem')
+    );
+    if (!commentItem) {
+      return;
+    }
+    try {
+      // 收集笔记内容和评论信息
+      const collectedData = await collectReplyPageContent(commentItem);
+      // 发送消息给sidepanel
+      const response = await chrome.runtime.sendMessage({
+        action: 'replyContentCollected',
+        data: {
+          timestamp: new Date().toISOString(),
+          url: window.location.href,
+          content: collectedData,
+        },
+      });
+      console.log('内容收集完成:', response);
+    } catch (error) {
+      console.error('内容收集失败:', error);
+    }
+  });
+
+  // 将按钮添加到目标元素
+  element.appendChild(aiButton);
+});
 
 domWatcher.start();
 
+// 发现页在弹窗中打开笔记，切换笔记时通知sidepanel，避免继续使用旧笔记的内容
+watchNoteNavigation(async (noteId, url) => {
+  // 链接变化时弹窗中还是上一篇笔记的内容，等正文换成新笔记后再通知，
+  // 否则 sidepanel 切换时会把旧笔记的内容当作新笔记收集
+  if (noteId) {
+    const previousDesc = queryField('noteDesc');
+    const previousText = previousDesc?.textContent || '';
+    const isLoaded = await waitForCondition(() => {
+      const desc = queryField('noteDesc');
+      return (
+        !!desc &&
+        (desc !== previousDesc || (desc.textContent || '') !== previousText)
+      );
+    }, NOTE_LOAD_TIMEOUT_MS);
+    // 等待期间又切换到了其他笔记，由之后的通知处理
+    if (getNoteIdFromUrl() !== noteId) return;
+    if (!isLoaded) {
+      console.warn('新笔记的内容没有加载出来，不通知笔记切换');
+      return;
+    }
+  }
+  chrome.runtime
+    .sendMessage({
+      action: 'noteChanged',
+      data: { noteId, url, timestamp: new Date().toISOString() },
+    })
+    .catch((error) => console.log('通知笔记切换失败:', error));
+});
+
+// 加载覆盖选择器后重新检查页面，覆盖选择器修改后同样重新检查
+initSelectorOverrides(() => domWatcher.rescan()).then(() =>
+  domWatcher.rescan()
+);
+
 // 收集发布页面内容的函数
 async function collectPostPageContent() {
   const data: PostData = {
@@ -178,11 +295,9 @@ async function collectPostPageContent() {
     content: '',
   };
 
-  // a: 收集 .img-preview-area 下的所有 .img.preview 元素
-  const imgPreviewArea = document.querySelector('.post-page .img-preview-area');
-  if (imgPreviewArea) {
-    const imgElements = imgPreviewArea.querySelectorAll('img.preview');
-
+  // a: 收集图片预览区的所有图片
+  const imgElements = queryFieldAll<HTMLImageElement>('postImages');
+  if (imgElements.length > 0) {
     // 转换所有图片为base64
     const imagePromises: Promise<string>[] = [];
     imgElements.forEach((img: Element) => {
@@ -213,30 +328,33 @@ async function collectPostPageContent() {
     }
   }
 
-  // b: 收集 .plugin.title-container .d-text 的input值
-  const titleContainer = document.querySelector('.post-page .title-container');
-  if (titleContainer) {
-    const input = titleContainer.querySelector('input') as HTMLInputElement;
-    if (input) {
-      data.title = input.value;
-    }
+  // b、c: 收集标题输入框的值和编辑器的P元素内容
+  Object.assign(data, readPostText());
+
+  console.log('收集到的内容:', data);
+  return data;
+}
+
+// 读取发布页当前的标题和正文
+function readPostText(): { title: string; content: string } {
+  const titleInput = queryField<HTMLInputElement>('postTitleInput');
+  if (!titleInput) {
+    console.warn(describeMissingField('postTitleInput'));
   }
 
-  // c: 收集 .plugin.editor-container 的P元素内容
-  const editorContainer = document.querySelector(
-    '.post-page .editor-container'
-  );
-  if (editorContainer) {
-    const pElements = editorContainer.querySelectorAll('p');
-    const contentArray: string[] = [];
-    pElements.forEach((p: Element) => {
-      contentArray.push(p.textContent || '');
-    });
-    data.content = contentArray.join('\n');
+  const editorContainer = queryField('postEditor');
+  if (!editorContainer) {
+    console.warn(describeMissingField('postEditor'));
   }
+  const contentArray: string[] = [];
+  editorContainer?.querySelectorAll('p').forEach((p: Element) => {
+    contentArray.push(p.textContent || '');
+  });
 
-  console.log('收集到的内容:', data);
-  return data;
+  return {
+    title: titleInput?.value || '',
+    content: contentArray.join('\n'),
+  };
 }
 
 // 解析媒体容器中的图片链接并转换为base64
@@ -244,19 +362,10 @@ async function parseMediaContainerImages(): Promise<string[]> {
   const images: string[] = [];
 
   try {
-    // 查找媒体容器
-    const mediaContainer = document.querySelector(
-      '.note-container .media-container'
-    );
-    if (!mediaContainer) {
-      console.log('未找到媒体容器 .media-container');
-      return images;
-    }
-
     // 查找滑动容器中的所有图片
-    const sliderContainer = mediaContainer.querySelector('.slider-container');
+    const sliderContainer = queryField('noteSlider');
     if (!sliderContainer) {
-      console.log('未找到滑动容器 .slider-container');
+      console.log(describeMissingField('noteSlider'));
       return images;
     }
 
@@ -278,46 +387,7 @@ async function parseMediaContainerImages(): Promise<string[]> {
       const img = imgElement as HTMLImageElement;
       if (img.src && img.src.startsWith('https://')) {
         console.log(`处理第 ${index + 1} 张图片: ${img.src}`);
-
-        // 创建新的图片元素来避免跨域问题
-        const promise = new Promise<string>((resolve, reject) => {
-          const proxyImg = new Image();
-          proxyImg.crossOrigin = 'anonymous';
-
-          proxyImg.onload = () => {
-            try {
-              const canvas = document.createElement('canvas');
-              const ctx = canvas.getContext('2d');
-
-              if (!ctx) {
-                reject(new Error('Canvas context not available'));
-                return;
-              }
-
-              canvas.width = proxyImg.naturalWidth || proxyImg.width;
-              canvas.height = proxyImg.naturalHeight || proxyImg.height;
-
-              ctx.drawImage(proxyImg, 0, 0);
-              const dataUrl = canvas.toDataURL('image/jpeg', 0.8);
-              resolve(dataUrl);
-            } catch (error) {
-              console.error(`转换图片 ${index + 1} 失败:`, error);
-              // 如果转换失败，返回原始URL
-              resolve(img.src);
-            }
-          };
-
-          proxyImg.onerror = () => {
-            console.error(`加载图片 ${index + 1} 失败: ${img.src}`);
-            // 如果加载失败，返回原始URL
-            resolve(img.src);
-          };
-
-          // 使用原始图片的src，设置crossOrigin来尝试解决跨域问题
-          proxyImg.src = img.src;
-        });
-
-        imagePromises.push(promise);
+        imagePromises.push(convertRemoteImageToBase64(img.src));
       } else {
         console.log(`跳过非HTTPS图片: ${img.src}`);
       }
@@ -336,12 +406,190 @@ async function parseMediaContainerImages(): Promise<string[]> {
   return images;
 }
 
+// 加载远程图片并通过 canvas 转换为base64，失败时返回原始URL
+function convertRemoteImageToBase64(src: string): Promise<string> {
+  // 创建新的图片元素来避免跨域问题
+  return new Promise<string>((resolve) => {
+    const proxyImg = new Image();
+    proxyImg.crossOrigin = 'anonymous';
+
+    proxyImg.onload = () => {
+      try {
+        resolve(
+          drawToDataURL(
+            proxyImg,
+            proxyImg.naturalWidth || proxyImg.width,
+            proxyImg.naturalHeight || proxyImg.height
+          )
+        );
+      } catch (error) {
+        console.error(`转换图片失败: ${src}`, error);
+        // 如果转换失败，返回原始URL
+        resolve(src);
+      }
+    };
+
+    proxyImg.onerror = () => {
+      console.error(`加载图片失败: ${src}`);
+      // 如果加载失败，返回原始URL
+      resolve(src);
+    };
+
+    // 使用原始图片的src，设置crossOrigin来尝试解决跨域问题
+    proxyImg.src = src;
+  });
+}
+
+// 将图片或视频画面绘制到 canvas 并导出为 jpeg 的 data URL
+function drawToDataURL(
+  source: CanvasImageSource,
+  width: number,
+  height: number
+): string {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas context not available');
+  }
+  canvas.width = width;
+  canvas.height = height;
+  ctx.drawImage(source, 0, 0, width, height);
+  return canvas.toDataURL('image/jpeg', 0.8);
+}
+
+// 截取视频笔记的封面和均匀分布的若干帧画面
+async function captureVideoFrames(video: HTMLVideoElement): Promise<string[]> {
+  const frames: string[] = [];
+
+  if (video.poster) {
+    const poster = await convertRemoteImageToBase64(video.poster);
+    // 封面转换失败时返回的是原始URL，模型无法读取，直接丢弃
+    if (poster.startsWith('data:')) {
+      frames.push(poster);
+    }
+  }
+
+  // 视频来自其他域名的 CDN，直接绘制页面上的视频会污染 canvas 导致无法导出，
+  // 移动播放进度也会打断用户观看，所以加载一个不插入页面的跨域视频副本截帧，
+  // 和 convertRemoteImageToBase64 使用单独的 Image 是同样的做法
+  const src = video.currentSrc || video.src;
+  // MSE 播放的 blob 链接无法在其他视频元素中加载
+  if (!src || src.startsWith('blob:')) {
+    console.warn('视频地址无法单独加载，只使用封面');
+    return frames;
+  }
+
+  const copy = document.createElement('video');
+  copy.crossOrigin = 'anonymous';
+  copy.muted = true;
+  copy.preload = 'auto';
+  copy.src = src;
+
+  try {
+    await waitForVideoMetadata(copy);
+    const duration = copy.duration;
+    if (!Number.isFinite(duration) || duration <= 0) {
+      return frames;
+    }
+
+    // 画面过大时按比例缩小，减少请求体积
+    const scale = Math.min(1, MAX_VIDEO_FRAME_WIDTH / copy.videoWidth);
+    const width = Math.round(copy.videoWidth * scale);
+    const height = Math.round(copy.videoHeight * scale);
+
+    for (let i = 1; i <= VIDEO_FRAME_COUNT; i++) {
+      try {
+        await seekVideo(copy, (duration * i) / (VIDEO_FRAME_COUNT + 1));
+        frames.push(drawToDataURL(copy, width, height));
+      } catch (error) {
+        console.error(`截取视频第 ${i} 帧失败:`, error);
+      }
+    }
+  } catch (error) {
+    console.error('截取视频画面失败:', error);
+  } finally {
+    // 释放视频副本占用的网络连接和解码资源
+    copy.removeAttribute('src');
+    copy.load();
+  }
+
+  console.log(`截取到 ${frames.length} 张视频画面`);
+  return frames;
+}
+
+// 等待视频时长等元数据加载完成
+function waitForVideoMetadata(video: HTMLVideoElement): Promise<void> {
+  if (video.readyState >= HTMLMediaElement.HAVE_METADATA) {
+    return Promise.resolve();
+  }
+  return waitForVideoEvent(video, 'loadedmetadata');
+}
+
+// 跳转到指定时间并等待画面就绪
+function seekVideo(video: HTMLVideoElement, time: number): Promise<void> {
+  const seeked = waitForVideoEvent(video, 'seeked');
+  video.currentTime = time;
+  return seeked;
+}
+
+function waitForVideoEvent(
+  video: HTMLVideoElement,
+  eventName: 'loadedmetadata' | 'seeked'
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      video.removeEventListener(eventName, onEvent);
+      video.removeEventListener('error', onError);
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error(`等待视频 ${eventName} 超时`));
+    }, VIDEO_EVENT_TIMEOUT_MS);
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    // 视频加载失败（如 CDN 不允许跨域）时不必等到超时
+    const onError = () => {
+      cleanup();
+      reject(new Error('视频加载失败'));
+    };
+    video.addEventListener(eventName, onEvent, { once: true });
+    video.addEventListener('error', onError, { once: true });
+  });
+}
+
+// 收集笔记页面内容并发送给sidepanel
+async function sendCommentPageContent() {
+  try {
+    // 收集页面内容
+    const collectedData = await collectCommentPageContent();
+    // 发送消息给sidepanel
+    const response = await chrome.runtime.sendMessage({
+      action: 'commentContentCollected',
+      data: {
+        timestamp: new Date().toISOString(),
+        url: window.location.href,
+        content: collectedData,
+      },
+    });
+    console.log('内容收集完成:', response);
+  } catch (error) {
+    console.error('内容收集失败:', error);
+  }
+}
+
 // 收集笔记页面内容的函数
 async function collectCommentPageContent() {
   const data: CommentData = {
+    noteId: getNoteIdFromUrl(),
     images: [] as string[],
     title: '',
     content: '',
+    mediaType: 'image',
+    metadata: collectNoteMetadata(),
+    topComments: [],
   };
 
   // 使用新的解析方法收集媒体容器中的图片
@@ -352,31 +600,163 @@ async function collectCommentPageContent() {
     console.error('收集媒体容器图片失败:', error);
   }
 
+  // 视频笔记没有图片，改为截取视频画面
+  const video = queryField<HTMLVideoElement>('noteVideo');
+  if (video && data.images.length === 0) {
+    data.mediaType = 'video';
+    data.images = await captureVideoFrames(video);
+  }
+
   // b: 收集标题 - 直接取 div 的内容
-  const titleContainer =
-    document.querySelector('#detail-title') ||
-    document.querySelector('.note-content .title');
+  const titleContainer = queryField('noteTitle');
   if (titleContainer) {
     data.title = titleContainer.textContent?.trim() || '';
     console.log('收集到标题:', data.title);
+  } else {
+    console.warn(describeMissingField('noteTitle'));
   }
 
   // c: 收集内容 - 取所有标签的文字内容
-  const contentContainer =
-    document.querySelector('#detail-desc') ||
-    document.querySelector('.note-content .desc');
+  const contentContainer = queryField('noteDesc');
   if (contentContainer) {
     // 获取所有文字内容，包括各种标签（span, a等）
     data.content = contentContainer.textContent?.trim() || '';
     console.log('收集到内容:', data.content);
+  } else {
+    console.warn(describeMissingField('noteDesc'));
   }
 
+  // d: 收集已经加载出来的评论
+  data.topComments = collectTopComments();
+
   console.log('收集到的内容:', data);
   return data;
 }
 
+// 收集笔记作者、话题标签、互动数据、发布时间和地点
+function collectNoteMetadata(): NoteMetadata {
+  const author = queryField('noteAuthor')?.textContent?.trim() || '';
+
+  const tags = queryFieldAll('noteTags')
+    .map((tag) => tag.textContent?.trim().replace(/^#/, '') || '')
+    .filter(Boolean);
+
+  // 互动栏中的点赞、收藏、评论数
+  const getCount = (key: SelectorKey) =>
+    parseCount(queryField(key)?.textContent);
+
+  // 日期栏形如 "编辑于 2024-05-01 上海" 或 "3天前 北京"
+  const dateText = queryField('noteDate')?.textContent || '';
+  const dateParts = dateText
+    .replace(/^编辑于/, '')
+    .trim()
+    .split(/\s+/);
+  const hasLocation =
+    dateParts.length > 1 && !/\d|前|昨天|今天/.test(dateParts.at(-1) || '');
+
+  return {
+    author,
+    tags: Array.from(new Set(tags)),
+    likeCount: getCount('noteLikeCount'),
+    collectCount: getCount('noteCollectCount'),
+    commentCount: getCount('noteCommentCount'),
+    publishTime: (hasLocation ? dateParts.slice(0, -1) : dateParts).join(' '),
+    location: hasLocation ? dateParts.at(-1) : undefined,
+  };
+}
+
+// 收集评论区已加载的一级评论（按页面顺序，即置顶和热门评论在前）
+function collectTopComments(): CollectedComment[] {
+  return queryFieldAll('topComment')
+    .slice(0, MAX_TOP_COMMENTS)
+    .map((commentItem) => {
+      const tags = queryFieldAll('commentTags', commentItem).map(
+        (tag) => tag.textContent?.trim() || ''
+      );
+      return {
+        ...getCommentInfo(commentItem),
+        likeCount: parseCount(
+          queryField('commentLikeCount', commentItem)?.textContent
+        ),
+        isPinned: tags.some((tag) => tag.includes('置顶')),
+        isAuthor: tags.some((tag) => tag.includes('作者')),
+      };
+    })
+    .filter((comment) => comment.content);
+}
+
+// 解析页面上的计数文字，如 "赞"、"328"、"1.2万"
+function parseCount(text?: string | null): number {
+  const value = text?.trim() || '';
+  const number = parseFloat(value);
+  if (Number.isNaN(number)) return 0;
+  return value.includes('万') ? Math.round(number * 10000) : number;
+}
+
+// 收集要回复的评论：笔记内容 + 评论作者和内容，楼中楼额外收集所在楼层的主评论
+async function collectReplyPageContent(
+  commentItem: HTMLElement
+): Promise<ReplyData> {
+  const noteData = await collectCommentPageContent();
+
+  // 给评论元素打上标记，应用回复时据此找到这条评论
+  if (!commentItem.dataset.aiReplyId) {
+    commentItem.dataset.aiReplyId = `${Date.now()}`;
+  }
+
+  const replyTarget: ReplyTarget = {
+    commentId: commentItem.dataset.aiReplyId,
+    ...getCommentInfo(commentItem),
+  };
+
+  // 不是一级评论即为楼中楼，所在楼层的第一条评论为主评论
+  if (!commentItem.matches(fieldSelector('topComment'))) {
+    const thread = commentItem.closest(fieldSelector('commentThread'));
+    const parentItem = thread && queryField('topComment', thread);
+    if (parentItem) {
+      replyTarget.parentComment = getCommentInfo(parentItem);
+    }
+  }
+
+  const data: ReplyData = { ...noteData, replyTarget };
+  console.log('收集到的回复内容:', data);
+  return data;
+}
+
+// 读取单条评论的作者和内容
+function getCommentInfo(commentItem: HTMLElement): CommentInfo {
+  const author =
+    queryField('commentAuthor', commentItem)?.textContent?.trim() || '';
+  const contentElement = queryField('commentContent', commentItem);
+  return {
+    author,
+    content: contentElement?.textContent?.trim() || '',
+  };
+}
+
+// 写入标题输入框并触发页面的更新事件
+function setTitleValue(input: HTMLInputElement, value: string) {
+  input.value = value;
+
+  // 触发多种事件以确保页面响应
+  const events = ['input', 'change', 'keyup', 'blur'];
+  events.forEach((eventType) => {
+    input.dispatchEvent(new Event(eventType, { bubbles: true }));
+  });
+
+  // 如果是React组件，尝试触发React事件
+  const reactKey = Object.keys(input).find(
+    (key) =>
+      key.startsWith('__reactInternalInstance') ||
+      key.startsWith('_reactInternalFiber')
+  );
+  if (reactKey) {
+    input.dispatchEvent(new Event('input', { bubbles: true }));
+  }
+}
+
 // 应用编辑后的内容回到页面
-function applyEditedContent(editedData: {
+async function applyEditedContent(editedData: {
   title?: string;
   content?: string;
   messageId?: string;
@@ -386,103 +766,61 @@ function applyEditedContent(editedData: {
     console.log('Content Script: 开始应用编辑后的内容:', editedData);
 
     const appliedFields: string[] = [];
+    // 找不到的页面元素，应用失败时提示给用户
+    const missingFields: string[] = [];
+    // 记录被覆盖字段原来的内容，用于撤销
+    const previous = readPostText();
+    const snapshot: ApplySnapshot = {};
 
     // 应用标题
     if (editedData.title) {
-      const titleContainer = document.querySelector(
-        '.post-page .title-container'
-      );
-      if (titleContainer) {
-        const input = titleContainer.querySelector('input') as HTMLInputElement;
-        if (input) {
-          console.log('Content Script: 应用标题:', editedData.title);
-          input.value = editedData.title;
-
-          // 触发多种事件以确保页面响应
-          const events = ['input', 'change', 'keyup', 'blur'];
-          events.forEach((eventType) => {
-            input.dispatchEvent(new Event(eventType, { bubbles: true }));
-          });
-
-          // 如果是React组件，尝试触发React事件
-          const reactKey = Object.keys(input).find(
-            (key) =>
-              key.startsWith('__reactInternalInstance') ||
-              key.startsWith('_reactInternalFiber')
-          );
-          if (reactKey) {
-            input.dispatchEvent(new Event('input', { bubbles: true }));
-          }
-
-          appliedFields.push('标题');
-        } else {
-          console.warn('Content Script: 未找到标题输入框');
-        }
+      const input = queryField<HTMLInputElement>('postTitleInput');
+      if (input) {
+        console.log('Content Script: 应用标题:', editedData.title);
+        snapshot.title = previous.title;
+        setTitleValue(input, editedData.title);
+        appliedFields.push('标题');
       } else {
-        console.warn('Content Script: 未找到标题容器(.title-container)');
+        missingFields.push(describeMissingField('postTitleInput'));
       }
     }
 
     // 应用内容
     if (editedData.content) {
-      const editorContainer = document.querySelector(
-        '.post-page .editor-container'
-      );
-      if (editorContainer) {
+      // 只写入编辑器的可编辑区域，写入编辑器容器会破坏编辑器的结构
+      const editable = queryField('postEditorInput');
+      if (editable) {
         console.log('Content Script: 应用内容:', editedData.content);
+        snapshot.content = previous.content;
 
-        // 获取现有的p元素
-        const existingPElements = editorContainer.querySelectorAll('p');
-
-        // 如果有现有的p元素，直接替换其内容
-        if (existingPElements.length > 0) {
-          // 使用第一个p元素来放置所有内容
-          const firstP = existingPElements[0] as HTMLParagraphElement;
-          firstP.textContent = editedData.content;
-
-          // 移除其他多余的p元素
-          for (let i = 1; i < existingPElements.length; i++) {
-            existingPElements[i].remove();
-          }
-        } else {
-          // 如果没有现有的p元素，创建一个新的
-          const newP = document.createElement('p');
-          newP.textContent = editedData.content;
-
-          // 设置样式以匹配原有格式
-          newP.setAttribute('data-slate-node', 'element');
-          newP.setAttribute('data-slate-object', 'block');
-
-          editorContainer.appendChild(newP);
-        }
-
-        // 触发编辑器更新事件
-        const focusEvent = new Event('focus', { bubbles: true });
-        const inputEvent = new Event('input', { bubbles: true });
-        const changeEvent = new Event('change', { bubbles: true });
-
-        editorContainer.dispatchEvent(focusEvent);
-        editorContainer.dispatchEvent(inputEvent);
-        editorContainer.dispatchEvent(changeEvent);
+        const method = await insertEditorContent(editable, editedData.content);
+        console.log(`Content Script: 正文写入方式: ${method}`);
 
         appliedFields.push('内容');
       } else {
-        console.warn('Content Script: 未找到编辑器容器(.editor-container)');
+        missingFields.push(describeMissingField('postEditorInput'));
       }
     }
 
+    missingFields.forEach((message) =>
+      console.warn(`Content Script: ${message}`)
+    );
+
     if (appliedFields.length > 0) {
       console.log(`Content Script: 应用完成 - ${appliedFields.join('、')}`);
+      const snapshotId = `apply-${Date.now()}`;
+      applySnapshots.set(snapshotId, snapshot);
       return {
         success: true,
         message: `${appliedFields.join('、')}已成功应用到页面`,
         appliedFields,
+        snapshotId,
       };
     } else {
       console.warn('Content Script: 没有应用任何内容');
       return {
         success: false,
-        error: '没有找到可应用的页面元素',
+        error: missingFields.join('；') || '没有找到可应用的页面元素',
       };
     }
   } catch (error) {
@@ -494,15 +832,83 @@ function applyEditedContent(editedData: {
   }
 }
 
+// 撤销一次应用，恢复被覆盖的标题和正文
+async function undoAppliedContent(snapshotId?: string) {
+  try {
+    const snapshot = snapshotId && applySnapshots.get(snapshotId);
+    if (!snapshot) {
+      return {
+        success: false,
+        error: '找不到应用前的内容，页面可能已经刷新',
+      };
+    }
+
+    const restoredFields: string[] = [];
+    if (snapshot.title !== undefined) {
+      const input = queryField<HTMLInputElement>('postTitleInput');
+      if (!input) {
+        return {
+          success: false,
+          error: describeMissingField('postTitleInput'),
+        };
+      }
+      setTitleValue(input, snapshot.title);
+      restoredFields.push('标题');
+    }
+    if (snapshot.content !== undefined) {
+      const editable = queryField('postEditorInput');
+      if (!editable) {
+        return {
+          success: false,
+          error: describeMissingField('postEditorInput'),
+        };
+      }
+      await insertEditorContent(editable, snapshot.content);
+      restoredFields.push('内容');
+    }
+
+    applySnapshots.delete(snapshotId);
+    console.log(`Content Script: 已撤销应用 - ${restoredFields.join('、')}`);
+    return {
+      success: true,
+      message: `已恢复应用前的${restoredFields.join('、')}`,
+    };
+  } catch (error) {
+    console.error('Content Script: 撤销应用失败:', error);
+    return {
+      success: false,
+      error: (error as Error).message,
+    };
+  }
+}
+
+// 检查页面是否仍是收集内容时的笔记，避免把评论发到其他笔记下
+function getNoteChangedError(noteId?: string): string | null {
+  if (noteId && noteId !== getNoteIdFromUrl()) {
+    return '页面已切换到其他笔记，请重新收集内容后再应用';
+  }
+  return null;
+}
+
 // 应用评论内容到页面
 function applyCommentContent(commentData: {
   content?: string;
+  noteId?: string;
   messageId?: string;
   timestamp?: string;
 }) {
   try {
     console.log('Content Script: 开始应用评论内容:', commentData);
 
+    const noteChangedError = getNoteChangedError(commentData.noteId);
+    if (noteChangedError) {
+      console.warn(`Content Script: ${noteChangedError}`);
+      return {
+        success: false,
+        error: noteChangedError,
+      };
+    }
+
     if (!commentData.content) {
       console.warn('Content Script: 没有评论内容可应用');
       return {
@@ -511,29 +917,14 @@ function applyCommentContent(commentData: {
       };
     }
 
-    // 查找评论输入框的 p 标签，优先使用 id，然后使用 class 或元素选择器
-    let commentInput: HTMLParagraphElement | null = null;
-
-    // 优先尝试通过 ID 查找
-    commentInput = document.querySelector(
-      '#content-textarea'
-    ) as HTMLParagraphElement;
-
-    // 如果通过 ID 找不到，尝试使用完整的 class 路径
+    // 查找评论输入框的 p 标签
+    const commentInput = queryField('commentInput');
     if (!commentInput) {
-      commentInput = document.querySelector(
-        '.interaction-container .engage-bar-container .input-box .content-edit p'
-      ) as HTMLParagraphElement;
-      console.log('Content Script: 通过 class 路径找到评论输入框');
-    } else {
-      console.log('Content Script: 通过 ID 找到评论输入框');
-    }
-
-    if (!commentInput) {
-      console.warn('Content Script: 未找到评论输入框');
+      const error = describeMissingField('commentInput');
+      console.warn(`Content Script: ${error}`);
       return {
         success: false,
-        error: '未找到评论输入框',
+        error,
       };
     }
 
@@ -543,7 +934,7 @@ function applyCommentContent(commentData: {
 
     // 触发相关事件以确保页面响应
     ['input', 'change', 'keyup', 'blur', 'focus'].forEach((eventType) => {
-      commentInput!.dispatchEvent(new Event(eventType, { bubbles: true }));
+      commentInput.dispatchEvent(new Event(eventType, { bubbles: true }));
     });
 
     console.log('Content Script: 评论内容已成功应用');
@@ -560,13 +951,130 @@ function applyCommentContent(commentData: {
   }
 }
 
+// 应用回复：先点击该评论的回复按钮，让评论框切换为回复这条评论，再填入内容
+async function applyReplyContent(replyData: {
+  content?: string;
+  commentId?: string;
+  noteId?: string;
+  messageId?: string;
+  timestamp?: string;
+}) {
+  try {
+    console.log('Content Script: 开始应用回复内容:', replyData);
+
+    const noteChangedError = getNoteChangedError(replyData.noteId);
+    if (noteChangedError) {
+      console.warn(`Content Script: ${noteChangedError}`);
+      return {
+        success: false,
+        error: noteChangedError,
+      };
+    }
+
+    const commentItem = document.querySelector<HTMLElement>(
+      `[data-ai-reply-id="${replyData.commentId}"]`
+    );
+    if (!commentItem) {
+      console.warn('Content Script: 未找到要回复的评论');
+      return {
+        success: false,
+        error: '未找到要回复的评论，请确认笔记页面仍然打开',
+      };
+    }
+
+    const replyButton = queryField('commentReplyButton', commentItem);
+    if (!replyButton) {
+      const error = describeMissingField('commentReplyButton');
+      console.warn(`Content Script: ${error}`);
+      return {
+        success: false,
+        error,
+      };
+    }
+    const author =
+      queryField('commentAuthor', commentItem)?.textContent?.trim() || '';
+    const hintBeforeClick = getCommentInputHint();
+    replyButton.click();
+
+    // 评论框一直存在，要等它真正切换为回复这条评论后再填入，
+    // 否则回复会作为一级评论发出
+    const isReplying = await waitForCondition(
+      () => isReplyingTo(author, hintBeforeClick),
+      REPLY_STATE_TIMEOUT_MS
+    );
+    if (!isReplying) {
+      console.warn('Content Script: 评论框未切换为回复状态');
+      return {
+        success: false,
+        error: '评论框没有切换为回复状态，请手动点击该评论的回复后重试',
+      };
+    }
+
+    return applyCommentContent(replyData);
+  } catch (error) {
+    console.error('Content Script: 应用回复内容失败:', error);
+    return {
+      success: false,
+      error: (error as Error).message,
+    };
+  }
+}
+
+// 等待评论框切换为回复状态的时间
+const REPLY_STATE_TIMEOUT_MS = 2000;
+
+// 评论框的提示文字，切换为回复状态后变为“回复 @xxx”
+function getCommentInputHint(): string {
+  const input = queryField('commentInput');
+  if (!input) return '';
+  return [input, input.parentElement]
+    .flatMap((element) =>
+      ['data-placeholder', 'placeholder', 'aria-placeholder'].map(
+        (name) => element?.getAttribute(name) || ''
+      )
+    )
+    .join(' ');
+}
+
+// 评论框是否正在回复这条评论：出现回复对象，或提示文字变为回复该作者
+function isReplyingTo(author: string, hintBeforeClick: string): boolean {
+  const replyTarget = queryField('commentReplyTarget');
+  if (replyTarget && (!author || replyTarget.textContent?.includes(author))) {
+    return true;
+  }
+  const hint = getCommentInputHint();
+  if (!hint.includes('回复')) return false;
+  return author ? hint.includes(author) : hint !== hintBeforeClick;
+}
+
+// 等待条件满足，超时返回 false
+function waitForCondition(
+  condition: () => boolean,
+  timeout: number
+): Promise<boolean> {
+  return new Promise((resolve) => {
+    const start = Date.now();
+    const check = () => {
+      if (condition()) {
+        resolve(true);
+      } else if (Date.now() - start > timeout) {
+        resolve(false);
+      } else {
+        setTimeout(check, 50);
+      }
+    };
+    // 留出时间让页面处理点击事件
+    setTimeout(check, 50);
+  });
+}
+
 // 创建AI帮手按钮的函数
-function createAIAssistantButton(): HTMLSpanElement {
+function createAIAssistantButton(iconHeight: number = 24): HTMLSpanElement {
   const button = document.createElement('span');
 
   // 设置按钮样式，使用SVG图标
   button.innerHTML = `
-    <img src="${aiAuto_icon}" alt="AI一键生成" style="width: auto; height: 24px; object-fit: contain;" />
+    <img src="${aiAuto_icon}" alt="AI一键生成" style="width: auto; height: ${iconHeight}px; object-fit: contain;" />
   `;
 
   // 应用样式
@@ -625,10 +1133,21 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       return true;
     }
 
-    // 应用内容并返回结果
-    const result = applyEditedContent(message.data);
-    console.log('Content Script: 应用结果:', result);
-    sendResponse(result);
+    // 应用内容并异步返回结果
+    applyEditedContent(message.data).then((result) => {
+      console.log('Content Script: 应用结果:', result);
+      sendResponse(result);
+    });
+    return true;
+  } else if (message.action === 'readPostContent') {
+    // 读取发布页当前的标题和正文，用于应用前对比
+    sendResponse({ success: true, data: readPostText() });
+    return true;
+  } else if (message.action === 'undoAppliedContent') {
+    undoAppliedContent(message.data?.snapshotId).then((result) => {
+      console.log('Content Script: 撤销应用结果:', result);
+      sendResponse(result);
+    });
     return true;
   } else if (message.action === 'applyCommentContent') {
     console.log('Content Script: 收到应用评论内容的请求:', message.data);
@@ -651,6 +1170,31 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     console.log('Content Script: 应用评论结果:', result);
     sendResponse(result);
     return true;
+  } else if (message.action === 'applyReplyContent') {
+    console.log('Content Script: 收到应用回复内容的请求:', message.data);
+
+    // 验证数据格式
+    if (!message.data?.content || !message.data?.commentId) {
+      console.error('Content Script: 缺少回复内容或评论标记');
+      sendResponse({ success: false, error: '缺少回复内容数据' });
+      return true;
+    }
+
+    // 应用回复并异步返回结果
+    applyReplyContent(message.data).then((result) => {
+      console.log('Content Script: 应用回复结果:', result);
+      sendResponse(result);
+    });
+    return true;
+  } else if (message.action === 'collectNoteContent') {
+    // sidepanel 切换到当前笔记，与点击AI按钮相同
+    sendCommentPageContent();
+    sendResponse({ success: true });
+    return true;
+  } else if (message.action === 'diagnoseSelectors') {
+    // 检查当前页面各元素的选择器是否有效
+    sendResponse({ success: true, data: diagnoseSelectors() });
+    return true;
   } else {
     console.log('Content Script: 未知消息类型:', message.action);
     sendResponse({ success: false, error: '未知消息类型' });
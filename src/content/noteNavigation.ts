@@ -0,0 +1,37 @@
+// 从笔记链接中解析笔记 id，如 /explore/64f1...、/discovery/item/64f1...
+export function getNoteIdFromUrl(
+  url: string = window.location.href
+): string | undefined {
+  const match = new URL(url).pathname.match(
+    /^\/(?:explore|discovery\/item)\/([0-9a-zA-Z]+)/
+  );
+  return match?.[1];
+}
+
+// 监听页面内的笔记切换：发现页通过 History API 打开笔记弹窗，页面不会重新加载
+// content script 运行在独立环境，拦截不到页面调用的 history.pushState，
+// 所以在前进后退和 DOM 变化（打开、关闭、切换弹窗都会引起）时检查链接
+export function watchNoteNavigation(
+  onNoteChange: (noteId: string | undefined, url: string) => void
+): void {
+  let lastUrl = window.location.href;
+  let lastNoteId = getNoteIdFromUrl(lastUrl);
+
+  const check = () => {
+    const url = window.location.href;
+    if (url === lastUrl) return;
+    lastUrl = url;
+
+    // 同一篇笔记只是参数变化（如 xsec_token）时不通知
+    const noteId = getNoteIdFromUrl(url);
+    if (noteId === lastNoteId) return;
+    lastNoteId = noteId;
+    onNoteChange(noteId, url);
+  };
+
+  window.addEventListener('popstate', check);
+  new MutationObserver(check).observe(document.body, {
+    childList: true,
+    subtree: true,
+  });
+}
@@ -0,0 +1,125 @@
+import {
+  SELECTOR_FIELDS,
+  SELECTOR_REGISTRY_VERSION,
+  describeMissingSelector,
+  getSelectors,
+  isValidSelector,
+  loadSelectorOverrides,
+  onSelectorOverridesChanged,
+  type SelectorCheck,
+  type SelectorDiagnostics,
+  type SelectorKey,
+  type SelectorOverrides,
+} from '../services/selectorRegistry';
+
+let overrides: SelectorOverrides = {};
+
+// 加载设置中的覆盖选择器，之后有修改时自动同步
+export async function initSelectorOverrides(
+  onChange?: () => void
+): Promise<void> {
+  overrides = (await loadSelectorOverrides()).overrides;
+  onSelectorOverridesChanged((next) => {
+    overrides = next;
+    onChange?.();
+  });
+}
+
+// 合并所有候选选择器，用于 matches / closest 等只接受单个选择器的场景
+// 跳过语法无效的覆盖选择器，否则整个选择器列表都会失效
+export function fieldSelector(key: SelectorKey): string {
+  return getSelectors(key, overrides).filter(isValidSelector).join(', ');
+}
+
+// 依次尝试候选选择器，返回第一个找到的元素
+export function queryField<T extends Element = HTMLElement>(
+  key: SelectorKey,
+  root: ParentNode = document
+): T | null {
+  return checkField<T>(key, root).element;
+}
+
+// 返回第一个能找到元素的候选选择器的所有匹配元素
+export function queryFieldAll<T extends Element = HTMLElement>(
+  key: SelectorKey,
+  root: ParentNode = document
+): T[] {
+  for (const selector of getSelectors(key, overrides)) {
+    const elements = safeQueryAll<T>(root, selector);
+    if (elements.length > 0) {
+      return elements;
+    }
+  }
+  return [];
+}
+
+// 找不到元素时的提示，如 "评论输入框未找到：已尝试 3 个选择器"
+export function describeMissingField(key: SelectorKey): string {
+  return describeMissingSelector(key, getSelectors(key, overrides).length);
+}
+
+// 检查当前页面上各字段的选择器是否还能找到元素
+export function diagnoseSelectors(): SelectorDiagnostics {
+  const page = window.location.hostname.startsWith('creator.')
+    ? 'publish'
+    : 'note';
+  // 评论内的字段在第一条评论中检查
+  const commentItem = queryField('commentItem');
+
+  const checks = (Object.keys(SELECTOR_FIELDS) as SelectorKey[])
+    .filter((key) => {
+      const scope = SELECTOR_FIELDS[key].scope;
+      return page === 'publish' ? scope === 'publish' : scope !== 'publish';
+    })
+    .map((key) => {
+      const root =
+        SELECTOR_FIELDS[key].scope === 'comment' ? commentItem : document;
+      const { matchedSelector, tried } = root
+        ? checkField(key, root)
+        : { matchedSelector: undefined, tried: 0 };
+      const check: SelectorCheck = {
+        key,
+        label: SELECTOR_FIELDS[key].label,
+        found: !!matchedSelector,
+        // 页面上没有评论时，评论内的字段无法检查
+        optional: !!SELECTOR_FIELDS[key].optional || !root,
+        matchedSelector,
+        tried,
+      };
+      return check;
+    });
+
+  return {
+    version: SELECTOR_REGISTRY_VERSION,
+    page,
+    url: window.location.href,
+    checks,
+  };
+}
+
+function checkField<T extends Element>(
+  key: SelectorKey,
+  root: ParentNode
+): { element: T | null; matchedSelector?: string; tried: number } {
+  const selectors = getSelectors(key, overrides);
+  for (let i = 0; i < selectors.length; i++) {
+    const element = safeQueryAll<T>(root, selectors[i])[0];
+    if (element) {
+      return { element, matchedSelector: selectors[i], tried: i + 1 };
+    }
+  }
+  return { element: null, tried: selectors.length };
+}
+
+// 覆盖选择器可能有语法错误，跳过而不是中断整个流程
+function safeQueryAll<T extends Element>(
+  root: ParentNode,
+  selector: string
+): T[] {
+  try {
+    return Array.from(root.querySelectorAll<T>(selector));
+  } catch (error) {
+    console.warn(`无效的选择器: ${selector}`, error);
+    return [];
+  }
+}
@@ -82,14 +82,43 @@ chrome.runtime.onMessage.addListener(
         handleContentCollected(message.data, sender, 'comment', sendResponse);
         return false;
 
+      case 'replyContentCollected':
+        console.log('评论回复收到内容收集:', message.data);
+        handleContentCollected(message.data, sender, 'reply', sendResponse);
+        return false;
+
       case 'applyContentToPage':
         handleApplyContentToPage(message.data, sendResponse);
         return true;
 
+      case 'readPostFromPage':
+        handleReadPostFromPage(sendResponse);
+        return true;
+
+      case 'undoApplyToPage':
+        handleUndoApplyToPage(message.data, sendResponse);
+        return true;
+
       case 'applyCommentToPage':
         handleApplyCommentToPage(message.data, sendResponse);
         return true;
 
+      case 'applyReplyToPage':
+        handleApplyReplyToPage(message.data, sendResponse);
+        return true;
+
+      case 'noteChanged':
+        handleNoteChanged(message.data, sendResponse);
+        return false;
+
+      case 'collectNoteFromPage':
+        handleCollectNoteFromPage(sendResponse);
+        return true;
+
+      case 'diagnoseSelectorsOnPage':
+        handleDiagnoseSelectorsOnPage(sendResponse);
+        return true;
+
       default:
         console.log('未知消息类型:', message.action);
         sendResponse({ error: '未知消息类型' });
@@ -163,6 +192,54 @@ function handleContentCollected(
   }
 }
 
+// 处理页面切换笔记，只通知已打开的 side panel，不主动打开
+function handleNoteChanged(
+  data: any,
+  sendResponse: (response: any) => void
+): void {
+  if (!sidePanelStatus.isRunning) {
+    sendResponse({ success: true, message: 'Side panel 未运行' });
+    return;
+  }
+  chrome.runtime
+    .sendMessage({ action: 'noteChangedReceived', data })
+    .then(() => sendResponse({ success: true }))
+    .catch((error) => {
+      console.error('转发笔记切换失败:', error);
+      sendResponse({ success: false, error: error.message });
+    });
+}
+
+// 处理重新收集当前笔记内容（side panel 切换到页面上的新笔记）
+async function handleCollectNoteFromPage(
+  sendResponse: (response: any) => void
+): Promise<void> {
+  try {
+    // 获取当前活动标签页
+    const [tab] = await chrome.tabs.query({
+      active: true,
+      currentWindow: true,
+    });
+
+    if (!tab?.id) {
+      sendResponse({ success: false, error: '无效的标签页ID' });
+      return;
+    }
+
+    // 收集结果会通过 commentContentCollected 发回 side panel
+    const response = await chrome.tabs.sendMessage(tab.id, {
+      action: 'collectNoteContent',
+    });
+    sendResponse(response);
+  } catch (error) {
+    console.error('Service Worker: 收集当前笔记失败:', error);
+    sendResponse({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+}
+
 // 处理应用内容到页面
 async function handleApplyContentToPage(
   data: any,
@@ -205,6 +282,8 @@ async function handleApplyContentToPage(
       success: response?.success || false,
       message: response?.message || '内容应用状态未知',
       error: response?.error,
+      // 用于撤销本次应用
+      snapshotId: response?.snapshotId,
     });
   } catch (error) {
     console.error('Service Worker: 应用内容到页面失败:', error);
@@ -215,6 +294,73 @@ async function handleApplyContentToPage(
   }
 }
 
+// 读取发布页当前的标题和正文，用于应用前对比
+async function handleReadPostFromPage(
+  sendResponse: (response: any) => void
+): Promise<void> {
+  try {
+    // 获取当前活动标签页
+    const [tab] = await chrome.tabs.query({
+      active: true,
+      currentWindow: true,
+    });
+
+    if (!tab.id) {
+      sendResponse({ success: false, error: '无效的标签页ID' });
+      return;
+    }
+
+    const response = await chrome.tabs.sendMessage(tab.id, {
+      action: 'readPostContent',
+    });
+    sendResponse(response);
+  } catch (error) {
+    console.error('Service Worker: 读取页面内容失败:', error);
+    sendResponse({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+}
+
+// 处理撤销应用到页面的内容
+async function handleUndoApplyToPage(
+  data: any,
+  sendResponse: (response: any) => void
+): Promise<void> {
+  try {
+    // 获取当前活动标签页
+    const [tab] = await chrome.tabs.query({
+      active: true,
+      currentWindow: true,
+    });
+
+    if (!tab.id) {
+      sendResponse({ success: false, error: '无效的标签页ID' });
+      return;
+    }
+
+    if (!data?.snapshotId) {
+      sendResponse({ success: false, error: '缺少要撤销的应用记录' });
+      return;
+    }
+
+    const response = await chrome.tabs.sendMessage(tab.id, {
+      action: 'undoAppliedContent',
+      data: { snapshotId: data.snapshotId },
+    });
+
+    console.log('Service Worker: Content script响应:', response);
+    sendResponse(response);
+  } catch (error) {
+    console.error('Service Worker: 撤销应用失败:', error);
+    sendResponse({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+}
+
 // 处理应用评论到页面
 async function handleApplyCommentToPage(
   data: any,
@@ -245,6 +391,7 @@ async function handleApplyCommentToPage(
       action: 'applyCommentContent',
       data: {
         content: data.content || '',
+        noteId: data.noteId,
         messageId: data.messageId,
         timestamp: data.timestamp,
       },
@@ -266,6 +413,93 @@ async function handleApplyCommentToPage(
   }
 }
 
+// 处理应用评论回复到页面
+async function handleApplyReplyToPage(
+  data: any,
+  sendResponse: (response: any) => void
+): Promise<void> {
+  try {
+    console.log('Service Worker: 转发回复应用请求到content script:', data);
+
+    // 获取当前活动标签页
+    const [tab] = await chrome.tabs.query({
+      active: true,
+      currentWindow: true,
+    });
+
+    if (!tab.id) {
+      sendResponse({ success: false, error: '无效的标签页ID' });
+      return;
+    }
+
+    // 确保数据包含必要的字段
+    if (!data.content || !data.commentId) {
+      sendResponse({ success: false, error: '缺少回复内容或要回复的评论' });
+      return;
+    }
+
+    // 发送消息到content script应用回复 (只转发，不存储)
+    const response = await chrome.tabs.sendMessage(tab.id, {
+      action: 'applyReplyContent',
+      data: {
+        content: data.content,
+        commentId: data.commentId,
+        noteId: data.noteId,
+        messageId: data.messageId,
+        timestamp: data.timestamp,
+      },
+    });
+
+    console.log('Service Worker: Content script响应:', response);
+
+    sendResponse({
+      success: response?.success || false,
+      message: response?.message || '回复应用状态未知',
+      error: response?.error,
+    });
+  } catch (error) {
+    console.error('Service Worker: 应用回复到页面失败:', error);
+    sendResponse({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+}
+
+// 处理页面元素选择器诊断
+async function handleDiagnoseSelectorsOnPage(
+  sendResponse: (response: any) => void
+): Promise<void> {
+  try {
+    // 获取当前活动标签页
+    const [tab] = await chrome.tabs.query({
+      active: true,
+      currentWindow: true,
+    });
+
+    if (!tab?.id || !tab.url || !isXiaohongshuPage(tab.url)) {
+      sendResponse({
+        success: false,
+        error: '请先打开小红书的发布页或笔记详情页',
+      });
+      return;
+    }
+
+    const response = await chrome.tabs.sendMessage(tab.id, {
+      action: 'diagnoseSelectors',
+    });
+
+    console.log('Service Worker: 选择器诊断结果:', response);
+    sendResponse(response);
+  } catch (error) {
+    console.error('Service Worker: 选择器诊断失败:', error);
+    sendResponse({
+      success: false,
+      error: '无法连接页面，请刷新小红书页面后重试',
+    });
+  }
+}
+
 // 检查是否为小红书页面
 function isXiaohongshuPage(url: string): boolean {
   return /^https:\/\/.*\.xiaohongshu\.com\/.*$/.test(url);
@@ -1,7 +1,34 @@
 import OpenAI from 'openai';
 import Anthropic from '@anthropic-ai/sdk';
-import { type ChatMessage, type MessageSource } from './messageTypes';
-import type { AIConfig } from '../components/SettingsPanel';
+import {
+  GoogleGenAI,
+  type Content,
+  type GenerateContentParameters,
+  type GenerateContentResponseUsageMetadata,
+} from '@google/genai';
+import {
+  type ChatMessage,
+  type MessageSource,
+  type CollectedComment,
+  type CollectedContent,
+  type NoteMetadata,
+  type ReplyTarget,
+} from './messageTypes';
+import type { WordingEdit } from './wordingPreferences';
+import { formatPersonaPrompt, getActivePersona } from './personas';
+import { stripBase64Prefix } from '../utils/imageUtils';
+import type {
+  AIConfig,
+  AIProvider,
+  ModelSettings,
+  ReasoningEffort,
+} from '../components/SettingsPanel';
+import { resolveModelSettings } from './aiConfigTypes';
+import {
+  getOutputTask,
+  type OutputTask,
+  type VariantCounts,
+} from './outputTasks';
 import type {
   ResponseCreateParamsBase,
   FunctionTool,
@@ -9,6 +36,7 @@ import type {
 import type {
   ChatCompletionCreateParamsBase,
   ChatCompletion,
+  ChatCompletionMessageParam,
 } from 'openai/resources/chat/completions.mjs';
 
 // API message format for OpenAI/Claude
@@ -17,55 +45,79 @@ export interface APIMessage {
   content: any[];
 }
 
+// 通义千问 chat completions 的扩展参数，思考模式不支持 JSON Mode，需要关闭
+interface QwenChatParams {
+  enable_thinking?: boolean;
+}
+
+// 流式生成过程中已经解析出的部分内容
+export interface PartialGeneratedContent {
+  title?: string;
+  content?: string;
+}
+
+export type PartialContentHandler = (partial: PartialGeneratedContent) => void;
+
+export interface ChatCompletionOptions {
+  // 传入该回调时使用流式接口，每收到新内容都会回调一次
+  onPartial?: PartialContentHandler;
+  // 用于取消正在进行的请求
+  signal?: AbortSignal;
+  // 传入时一次生成多个候选
+  variants?: VariantCounts;
+  // 用户自定义的系统提示词（已替换变量），替换默认提示词
+  systemPrompt?: string;
+}
+
 export interface AIResponse {
   content: string;
-  usage?: OpenAI.CompletionUsage | Anthropic.Usage;
-}
-
-// 定义小红书内容的JSON Schema
-export const XHS_CONTENT_SCHEMA = {
-  type: 'object',
-  properties: {
-    title: {
-      type: 'string',
-      maxLength: 20,
-      description:
-        '优化后的标题，要吸引人、有点击欲望，符合小红书风格，不超过20个字符',
-    },
-    content: {
-      type: 'string',
-      maxLength: 1000,
-      description:
-        '优化后的完整内容，可包含表情符号、话题标签、换行等，不超过1000个字符',
-    },
-  },
-  required: ['title', 'content'],
-  additionalProperties: false,
-};
-
-// 定义小红书评论的JSON Schema
-export const XHS_COMMENT_SCHEMA = {
-  type: 'object',
-  properties: {
-    content: {
-      type: 'string',
-      maxLength: 100,
-      description:
-        '生成的评论内容，要有趣、有价值，可包含表情符号，不超过100个字符',
-    },
-  },
-  required: ['content'],
-  additionalProperties: false,
-};
+  // 实际完成生成的大模型（启用备用模型时可能与当前设置不同）
+  provider?: AIProvider;
+  // 实际使用的模型名称
+  model?: string;
+  usage?: TokenUsage;
+  // 按价格表估算的本次生成费用（元），未设置价格时为空
+  cost?: number;
+}
+
+// 统一各大模型返回的 token 用量
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// 连通性测试结果：invalid_key / model_not_found / network_error 为失败，
+// no_vision 表示可以连接但模型无法识别图片
+export type ConnectionTestStatus =
+  | 'success'
+  | 'no_vision'
+  | 'invalid_key'
+  | 'model_not_found'
+  | 'network_error'
+  | 'error';
+
+export interface ConnectionTestResult {
+  status: ConnectionTestStatus;
+  message: string;
+  // 最小文本请求的往返耗时
+  latencyMs?: number;
+}
 
 export class AIService {
   private openai: OpenAI | null = null;
   private anthropic: Anthropic | null = null;
+  private gemini: GoogleGenAI | null = null;
   private config: AIConfig;
 
   constructor(config: AIConfig) {
     this.config = config;
-    if (config.apiKey) {
+    if (config.provider === 'custom') {
+      // 自定义接口（如本地 Ollama / LM Studio）可以不需要 api key
+      if (!config.customBaseURL || !config.customModel) {
+        throw new Error('请设置⚙️自定义接口的地址和模型名称');
+      }
+      this.initializeClient();
+    } else if (config.apiKey) {
       this.initializeClient();
     } else {
       throw new Error('请设置⚙️您的AI大模型和api key');
@@ -95,6 +147,28 @@ export class AIService {
           dangerouslyAllowBrowser: true,
         });
         console.log('OpenAI client initialized');
+      } else if (this.config.provider === 'kimi') {
+        // Moonshot 提供 OpenAI 兼容接口
+        this.openai = new OpenAI({
+          apiKey: this.config.apiKey,
+          baseURL: 'https://api.moonshot.cn/v1',
+          dangerouslyAllowBrowser: true,
+        });
+        console.log('Kimi (Moonshot) client initialized');
+      } else if (this.config.provider === 'gemini') {
+        this.gemini = new GoogleGenAI({
+          apiKey: this.config.apiKey,
+        });
+        console.log('Google Gemini client initialized');
+      } else if (this.config.provider === 'custom') {
+        this.openai = new OpenAI({
+          // OpenAI SDK 要求 apiKey 非空，本地服务通常会忽略该值
+          apiKey: this.config.apiKey || 'not-needed',
+          baseURL: this.config.customBaseURL,
+          defaultHeaders: parseCustomHeaders(this.config.customHeaders),
+          dangerouslyAllowBrowser: true,
+        });
+        console.log('Custom OpenAI-compatible client initialized');
       }
     } catch (error) {
       console.error('Failed to initialize AI client:', error);
@@ -104,25 +178,196 @@ export class AIService {
 
   public async chatCompletion(
     messages: APIMessage[],
-    msgSource: MessageSource
+    msgSource: MessageSource,
+    options: ChatCompletionOptions = {}
   ): Promise<AIResponse> {
     if (this.config.provider === 'claude') {
-      return this.claudeChatCompletion(messages, msgSource);
+      return this.claudeChatCompletion(messages, msgSource, options);
     } else if (this.config.provider === 'chatgpt') {
-      return this.openaiChatCompletion(messages, msgSource);
+      return this.openaiChatCompletion(messages, msgSource, options);
     } else if (this.config.provider === 'qwen') {
-      return this.qwenChatCompletion(messages, msgSource);
+      return this.qwenChatCompletion(messages, msgSource, options);
+    } else if (this.config.provider === 'gemini') {
+      return this.geminiChatCompletion(messages, msgSource, options);
+    } else if (this.config.provider === 'kimi') {
+      return this.kimiChatCompletion(messages, msgSource, options);
+    } else if (this.config.provider === 'custom') {
+      return this.customChatCompletion(messages, msgSource, options);
     }
     return Promise.reject(new Error('Unsupported AI provider'));
   }
 
+  // 用最小请求测试连通性：先发一条纯文本，成功后再发一张小图片检查是否支持识图
+  public async testConnection(
+    signal?: AbortSignal
+  ): Promise<ConnectionTestResult> {
+    const start = performance.now();
+    try {
+      await this.ping(false, signal);
+    } catch (error) {
+      console.error('Connection test failed:', error);
+      return classifyConnectionError(error, signal);
+    }
+    const latencyMs = Math.round(performance.now() - start);
+
+    try {
+      await this.ping(true, signal);
+    } catch (error) {
+      console.error('Vision test failed:', error);
+      const result = classifyConnectionError(error, signal);
+      if (result.status === 'network_error') {
+        return result;
+      }
+      return {
+        status: 'no_vision',
+        message: '连接成功，但当前模型不支持识别图片，生成时将无法参考笔记图片',
+        latencyMs,
+      };
+    }
+    return { status: 'success', message: '连接成功', latencyMs };
+  }
+
+  // 发送一条只需返回极少 token 的请求
+  private async ping(withImage: boolean, signal?: AbortSignal): Promise<void> {
+    const { model } = this.getModelSettings('post');
+    const prompt = withImage ? '这张图片是什么颜色？' : 'ping';
+    const imageURL = `data:image/png;base64,${TEST_IMAGE_BASE64}`;
+
+    if (this.config.provider === 'claude') {
+      if (!this.anthropic) throw new Error('Claude client not initialized');
+      await this.anthropic.messages.create(
+        {
+          model,
+          max_tokens: 1,
+          messages: [
+            {
+              role: 'user',
+              content: withImage
+                ? [
+                    {
+                      type: 'image',
+                      source: {
+                        type: 'base64',
+                        media_type: 'image/png',
+                        data: TEST_IMAGE_BASE64,
+                      },
+                    },
+                    { type: 'text', text: prompt },
+                  ]
+                : prompt,
+            },
+          ],
+        },
+        { signal }
+      );
+    } else if (this.config.provider === 'chatgpt') {
+      if (!this.openai) throw new Error('OpenAI client not initialized');
+      // Responses 接口要求 max_output_tokens 不小于16
+      await this.openai.responses.create(
+        {
+          model,
+          max_output_tokens: 16,
+          stream: false,
+          input: withImage
+            ? [
+                {
+                  role: 'user',
+                  content: [
+                    { type: 'input_image', image_url: imageURL, detail: 'low' },
+                    { type: 'input_text', text: prompt },
+                  ],
+                },
+              ]
+            : prompt,
+        },
+        { signal }
+      );
+    } else if (this.config.provider === 'gemini') {
+      if (!this.gemini) throw new Error('Gemini client not initialized');
+      await this.gemini.models.generateContent({
+        model,
+        contents: withImage
+          ? [
+              {
+                role: 'user',
+                parts: [
+                  {
+                    inlineData: {
+                      mimeType: 'image/png',
+                      data: TEST_IMAGE_BASE64,
+                    },
+                  },
+                  { text: prompt },
+                ],
+              },
+            ]
+          : prompt,
+        config: { maxOutputTokens: 16, abortSignal: signal },
+      });
+    } else {
+      if (!this.openai) throw new Error('OpenAI client not initialized');
+      const params: ChatCompletionCreateParamsBase = {
+        model,
+        max_tokens: 1,
+        stream: false,
+        messages: [
+          {
+            role: 'user',
+            content: withImage
+              ? [
+                  { type: 'image_url', image_url: { url: imageURL } },
+                  { type: 'text', text: prompt },
+                ]
+              : prompt,
+          },
+        ],
+      };
+      await this.openai.chat.completions.create(
+        this.config.provider === 'qwen'
+          ? ({ ...params, enable_thinking: false } as typeof params)
+          : params,
+        { signal }
+      );
+    }
+  }
+
   public getProvider(): string {
     return this.config.provider;
   }
 
+  // 本次生成的输出任务，当前账号人设附加在系统提示词之后
+  private getOutputTask(
+    msgSource: MessageSource,
+    options: ChatCompletionOptions
+  ): OutputTask {
+    const task = getOutputTask(
+      msgSource,
+      options.variants,
+      options.systemPrompt
+    );
+    const persona = getActivePersona(this.config);
+    if (!persona) return task;
+    return {
+      ...task,
+      systemPrompt: `${task.systemPrompt}\n\n${formatPersonaPrompt(persona, msgSource)}`,
+    };
+  }
+
+  private getModelSettings(
+    msgSource: MessageSource,
+    variants?: VariantCounts
+  ): ModelSettings {
+    const settings = resolveModelSettings(this.config, msgSource);
+    // 一次生成多个候选时输出更长，按正文候选数量放大输出上限
+    return variants
+      ? { ...settings, maxTokens: settings.maxTokens * variants.contents }
+      : settings;
+  }
+
   private async claudeChatCompletion(
     messages: APIMessage[],
-    msgSource: MessageSource
+    msgSource: MessageSource,
+    options: ChatCompletionOptions
   ): Promise<AIResponse> {
     if (!this.anthropic) {
       throw new Error(
@@ -130,49 +375,7 @@ export class AIService {
       );
     }
 
-    // 定义Tools来强制Claude返回JSON格式
-    const tools: Anthropic.Tool[] = [
-      {
-        name: 'generate_xhs_content',
-        description: '生成小红书内容，包括标题和内容',
-        input_schema: {
-          type: 'object',
-          properties: {
-            title: {
-              type: 'string',
-              maxLength: 20,
-              description:
-                '优化后的标题，要吸引人、有点击欲望，符合小红书风格，不超过20个字符',
-            },
-            content: {
-              type: 'string',
-              maxLength: 1000,
-              description:
-                '优化后的完整内容，可包含表情符号、话题标签、换行等，不超过1000个字符',
-            },
-          },
-          required: ['title', 'content'],
-          additionalProperties: false,
-        },
-      },
-      {
-        name: 'generate_xhs_comment',
-        description: '生成小红书笔记评论',
-        input_schema: {
-          type: 'object',
-          properties: {
-            content: {
-              type: 'string',
-              maxLength: 1000,
-              description:
-                '生成的小红书笔记评论，可包含表情符号，不超过100个字符',
-            },
-          },
-          required: ['content'],
-          additionalProperties: false,
-        },
-      },
-    ];
+    const task = this.getOutputTask(msgSource, options);
 
     try {
       const conversationMessages = messages.filter((m) => m.role !== 'system');
@@ -185,21 +388,33 @@ export class AIService {
         })
       );
 
-      const response = await this.anthropic.messages.create({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 1024,
-        system:
-          msgSource === 'comment' ? commentSystemPrompt : postSystemPrompt,
+      const settings = this.getModelSettings(msgSource, options.variants);
+      const params: Anthropic.MessageCreateParamsNonStreaming = {
+        model: settings.model,
+        max_tokens: settings.maxTokens,
+        // Claude 的 temperature 取值范围是 0-1
+        ...(settings.temperature !== undefined && {
+          temperature: Math.min(settings.temperature, 1),
+        }),
+        system: task.systemPrompt,
         messages: claudeMessages,
-        tools: tools,
-        tool_choice: {
-          type: 'tool',
-          name:
-            msgSource === 'comment'
-              ? 'generate_xhs_comment'
-              : 'generate_xhs_content',
-        },
-      });
+        // 通过 tool 强制Claude返回JSON格式
+        tools: [toAnthropicTool(task)],
+        tool_choice: { type: 'tool', name: task.name },
+      };
+
+      let response: Anthropic.Message;
+      const { onPartial, signal } = options;
+      if (onPartial) {
+        // tool 参数以 JSON 片段流式返回，SDK 会给出解析好的部分对象
+        const stream = this.anthropic.messages.stream(params, { signal });
+        stream.on('inputJson', (_partialJson, jsonSnapshot) => {
+          onPartial(toPartialContent(jsonSnapshot));
+        });
+        response = await stream.finalMessage();
+      } else {
+        response = await this.anthropic.messages.create(params, { signal });
+      }
 
       if (!response.content || response.content.length === 0) {
         throw new Error('Invalid response from Claude API');
@@ -218,10 +433,10 @@ export class AIService {
         };
 
         // 验证tool输入是否符合我们的schema
-        if (validateContentResponse(toolInput, msgSource)) {
+        if (task.validate(toolInput)) {
           return {
             content: JSON.stringify(toolInput),
-            usage: response.usage,
+            usage: fromAnthropicUsage(response.usage),
           };
         } else {
           throw new Error('Tool input validation failed');
@@ -238,7 +453,7 @@ export class AIService {
 
       return {
         content: textContent.text,
-        usage: response.usage,
+        usage: fromAnthropicUsage(response.usage),
       };
     } catch (error) {
       console.error('Claude API call failed:', error);
@@ -248,7 +463,8 @@ export class AIService {
 
   private async openaiChatCompletion(
     messages: APIMessage[],
-    msgSource: MessageSource
+    msgSource: MessageSource,
+    options: ChatCompletionOptions
   ): Promise<AIResponse> {
     if (!this.openai) {
       throw new Error(
@@ -256,80 +472,49 @@ export class AIService {
       );
     }
 
-    // 定义Tools来强制Claude返回JSON格式
-    const tools: FunctionTool[] = [
-      {
-        type: 'function',
-        strict: true,
-        name: 'generate_xhs_content',
-        description: '生成小红书内容，包括标题和内容',
-        parameters: {
-          type: 'object',
-          additionalProperties: false, // 必须显式禁止额外字段
-          properties: {
-            title: {
-              type: 'string',
-              maxLength: 20,
-              description:
-                '优化后的标题，要吸引人、有点击欲望，符合小红书风格，不超过20个字符',
-            },
-            content: {
-              type: 'string',
-              maxLength: 1000,
-              description:
-                '优化后的完整内容，可包含表情符号、话题标签、换行等，不超过1000个字符',
-            },
-          },
-          required: ['title', 'content'], // 建议加 required 提升稳定性
-        },
-      },
-      {
-        type: 'function',
-        strict: true,
-        name: 'generate_xhs_comment',
-        description: '生成小红书笔记评论',
-        parameters: {
-          type: 'object',
-          additionalProperties: false, // 必须显式禁止额外字段
-          properties: {
-            content: {
-              type: 'string',
-              maxLength: 100,
-              description:
-                '生成的小红书笔记评论，可包含表情符号，不超过100个字符',
-            },
-          },
-          required: ['content'],
-        },
-      },
-    ];
+    const task = this.getOutputTask(msgSource, options);
 
     try {
-      const schema =
-        msgSource === 'post' ? XHS_CONTENT_SCHEMA : XHS_COMMENT_SCHEMA;
-      const schemaName = msgSource === 'post' ? 'xhs_content' : 'xhs_comment';
-      const schemaDescription =
-        msgSource === 'post' ? '小红书内容生成格式' : '小红书评论生成格式';
-      const targetToolName =
-        msgSource === 'comment'
-          ? 'generate_xhs_comment'
-          : 'generate_xhs_content';
-
-      const response = await this.openai.responses.create({
-        model: 'gpt-5', // 你现在的模型名
+      const settings = this.getModelSettings(msgSource, options.variants);
+      const params: Omit<ResponseCreateParamsBase, 'stream'> = {
+        model: settings.model,
         // 强制文本产出（不需要工具时建议加上，避免无文本输出）
         // 注意：Responses API 里，input 是消息数组（role + content parts）
         // 如果你的 APIMessage 已经是正确结构就直接传；否则请在这里做适配
         input: messages,
-        reasoning: { effort: 'low' },
-        instructions:
-          msgSource === 'post' ? postSystemPrompt : commentSystemPrompt,
-        tools: tools,
+        max_output_tokens: settings.maxTokens,
+        // 推理模型不支持 temperature，非推理模型不支持 reasoning
+        ...(isOpenAIReasoningModel(settings.model)
+          ? { reasoning: { effort: settings.reasoningEffort } }
+          : settings.temperature !== undefined && {
+              temperature: settings.temperature,
+            }),
+        instructions: task.systemPrompt,
+        // 通过 function tool 强制OpenAI返回JSON格式
+        tools: [toResponsesTool(task)],
         tool_choice: {
           type: 'function',
-          name: targetToolName,
+          name: task.name,
         },
-      });
+      };
+
+      let response: OpenAI.Responses.Response;
+      const { onPartial, signal } = options;
+      if (onPartial) {
+        const stream = this.openai.responses.stream(params, { signal });
+        stream.on('response.function_call_arguments.delta', (event) => {
+          onPartial(parsePartialContent(event.snapshot));
+        });
+        response = await stream.finalResponse();
+      } else {
+        response = await this.openai.responses.create(
+          {
+            ...params,
+            stream: false,
+          },
+          { signal }
+        );
+      }
 
       if (
         !response.output ||
@@ -346,7 +531,7 @@ export class AIService {
 
       if (
         contentItem &&
-        contentItem.name === targetToolName &&
+        contentItem.name === task.name &&
         contentItem.arguments
       ) {
         let toolInput = {};
@@ -360,15 +545,19 @@ export class AIService {
         }
 
         // 验证tool输入是否符合我们的schema
-        if (validateContentResponse(toolInput, msgSource)) {
+        if (task.validate(toolInput)) {
           return {
             content: JSON.stringify(toolInput),
+            usage: fromOpenAIResponseUsage(response.usage),
           };
         } else {
           throw new Error('Tool input validation failed');
         }
       }
-      return { content: '' };
+      return {
+        content: '',
+        usage: fromOpenAIResponseUsage(response.usage),
+      };
     } catch (error) {
       console.error('OpenAI API call failed:', error);
       return this.handleAPIError(error, 'OpenAI');
@@ -377,166 +566,302 @@ export class AIService {
 
   private async qwenChatCompletion(
     messages: APIMessage[],
-    msgSource: MessageSource
+    msgSource: MessageSource,
+    options: ChatCompletionOptions
+  ): Promise<AIResponse> {
+    return this.compatibleChatCompletion(messages, msgSource, options, {
+      providerName: 'Qwen',
+      extraParams: { enable_thinking: false },
+    });
+  }
+
+  private async customChatCompletion(
+    messages: APIMessage[],
+    msgSource: MessageSource,
+    options: ChatCompletionOptions
+  ): Promise<AIResponse> {
+    return this.compatibleChatCompletion(messages, msgSource, options, {
+      providerName: '自定义接口',
+    });
+  }
+
+  // OpenAI 兼容的 chat completions 调用（通义千问和自定义接口共用）
+  private async compatibleChatCompletion(
+    messages: APIMessage[],
+    msgSource: MessageSource,
+    options: ChatCompletionOptions,
+    provider: {
+      providerName: string;
+      extraParams?: QwenChatParams;
+    }
   ): Promise<AIResponse> {
     if (!this.openai) {
       throw new Error(
-        'OpenAI client not initialized. Please check your API key.'
+        `${provider.providerName} client not initialized. Please check your API key.`
       );
     }
 
-    // 定义Tools来强制OpenAI返回JSON格式
-    const tools: OpenAI.Chat.Completions.ChatCompletionTool[] = [
-      {
-        type: 'function',
-        function: {
-          name: 'generate_xhs_content',
-          description: '生成小红书内容，包括标题和内容',
-          strict: true,
-          parameters: {
-            type: 'object',
-            additionalProperties: false,
-            properties: {
-              title: {
-                type: 'string',
-                maxLength: 20,
-                description:
-                  '优化后的标题，要吸引人、有点击欲望，符合小红书风格，不超过20个字符',
-              },
-              content: {
-                type: 'string',
-                maxLength: 1000,
-                description:
-                  '优化后的完整内容，可包含表情符号、话题标签、换行等，不超过1000个字符',
-              },
-            },
-            required: ['title', 'content'],
-          },
+    try {
+      const task = this.getOutputTask(msgSource, options);
+      // 通过 JSON Mode 返回JSON格式，不修改传入的消息数组
+      const compatibleMessages = [
+        {
+          role: 'system',
+          content: `${task.systemPrompt}\n\n${task.jsonInstructions}`,
         },
-      },
-      {
-        type: 'function',
-        function: {
-          name: 'generate_xhs_comment',
-          description: '生成小红书笔记评论',
-          strict: true,
-          parameters: {
-            type: 'object',
-            additionalProperties: false,
-            properties: {
-              content: {
-                type: 'string',
-                maxLength: 100,
-                description:
-                  '生成的小红书笔记评论，可包含表情符号，不超过100个字符',
-              },
-            },
-            required: ['content'],
-          },
+        ...messages,
+      ] as ChatCompletionMessageParam[];
+
+      const settings = this.getModelSettings(msgSource, options.variants);
+      const params: ChatCompletionCreateParamsBase & QwenChatParams = {
+        model: settings.model,
+        messages: compatibleMessages,
+        max_tokens: settings.maxTokens,
+        temperature: settings.temperature,
+        ...provider.extraParams,
+        response_format: {
+          type: 'json_object',
+        },
+      };
+      const response = await this.createChatCompletion(params, options);
+
+      return {
+        content: response.choices[0].message.content || '',
+        usage: fromCompletionUsage(response.usage),
+      };
+    } catch (error) {
+      console.error(`${provider.providerName} API call failed:`, error);
+      return this.handleAPIError(error, provider.providerName);
+    }
+  }
+
+  // 调用 chat completions 接口，传入 onPartial 时使用流式接口
+  private async createChatCompletion(
+    params: ChatCompletionCreateParamsBase,
+    options: ChatCompletionOptions
+  ): Promise<ChatCompletion> {
+    if (!this.openai) {
+      throw new Error(
+        'OpenAI client not initialized. Please check your API key.'
+      );
+    }
+    const { onPartial, signal } = options;
+    if (onPartial) {
+      const stream = this.openai.chat.completions.stream(
+        {
+          ...params,
+          stream: true,
+          // 流式接口默认不返回用量，需要显式开启
+          stream_options: { include_usage: true },
         },
+        { signal }
+      );
+      stream.on('content', (_delta, snapshot) => {
+        onPartial(parsePartialContent(snapshot));
+      });
+      return stream.finalChatCompletion();
+    }
+    return (await this.openai.chat.completions.create(
+      {
+        ...params,
+        stream: false,
       },
-    ];
+      { signal }
+    )) as ChatCompletion;
+  }
 
-    try {
-      const schema =
-        msgSource === 'post' ? XHS_CONTENT_SCHEMA : XHS_COMMENT_SCHEMA;
-      const schemaName = msgSource === 'post' ? 'xhs_content' : 'xhs_comment';
-      const schemaDescription =
-        msgSource === 'post' ? '小红书内容生成格式' : '小红书评论生成格式';
-      const targetToolName =
-        msgSource === 'comment'
-          ? 'generate_xhs_comment'
-          : 'generate_xhs_content';
+  private async kimiChatCompletion(
+    messages: APIMessage[],
+    msgSource: MessageSource,
+    options: ChatCompletionOptions
+  ): Promise<AIResponse> {
+    if (!this.openai) {
+      throw new Error(
+        'Kimi client not initialized. Please check your API key.'
+      );
+    }
 
-      const postInstructions = `你是一个专业的小红书内容创作专家。请根据用户提供的信息和图片，生成符合小红书风格的标题和内容。
+    try {
+      const settings = this.getModelSettings(msgSource, options.variants);
+      const model = settings.model;
 
-输出要求：严格按照JSON格式，包含title和content两个字符串字段。
+      const task = this.getOutputTask(msgSource, options);
 
-创作规则：
-1. 标题：吸引人、有点击欲望，不超过20个字符
-2. 内容：真实有用、亲切自然，适当使用表情符号和话题标签
-3. 语言风格：符合小红书用户喜好`;
+      // 纯文本模型不支持图片，带图片时去掉图片并告知模型
+      const conversationMessages = isKimiVisionModel(model)
+        ? messages
+        : toTextOnlyMessages(messages);
 
-      const commentInstructions = `你是一个专业的小红书评论助家。请根据用户提供的笔记内容和图片，生成一条简短的、有趣的评论。
+      const kimiMessages = [
+        {
+          role: 'system',
+          content: `${task.systemPrompt}\n\n${task.jsonInstructions}`,
+        },
+        ...conversationMessages,
+      ] as ChatCompletionMessageParam[];
+
+      const response = await this.createChatCompletion(
+        {
+          model: model,
+          messages: kimiMessages,
+          max_tokens: settings.maxTokens,
+          temperature: settings.temperature,
+          response_format: {
+            type: 'json_object',
+          },
+        },
+        options
+      );
 
-输出要求：严格按照JSON格式，包含content一个字符串字段。
+      return {
+        content: response.choices[0].message.content || '',
+        usage: fromCompletionUsage(response.usage),
+      };
+    } catch (error) {
+      console.error('Kimi API call failed:', error);
+      return this.handleAPIError(error, 'Kimi');
+    }
+  }
 
-评论规则：
-1. 语气：真诚自然、友好亲切，符合小红书社区氛围
-2. 长度：控制在100字以内，适当使用表情符号`;
+  private async geminiChatCompletion(
+    messages: APIMessage[],
+    msgSource: MessageSource,
+    options: ChatCompletionOptions
+  ): Promise<AIResponse> {
+    if (!this.gemini) {
+      throw new Error(
+        'Gemini client not initialized. Please check your API key.'
+      );
+    }
 
-      messages.unshift({
-        role: 'user',
-        content: [
-          {
-            type: 'text',
-            text:
-              msgSource === 'comment' ? commentInstructions : postInstructions,
-          },
-        ],
-      });
+    try {
+      // Gemini 没有 assistant 角色，对应的是 model
+      const geminiContents: Content[] = messages
+        .filter((m) => m.role !== 'system')
+        .map((msg) => ({
+          role: msg.role === 'assistant' ? 'model' : 'user',
+          parts: msg.content,
+        }));
+
+      const task = this.getOutputTask(msgSource, options);
+      const settings = this.getModelSettings(msgSource, options.variants);
+      const thinkingBudget = getGeminiThinkingBudget(
+        settings.model,
+        settings.reasoningEffort
+      );
 
-      const response = (await this.openai.chat.completions.create({
-        model: 'qwen-vl-plus', // 你现在的模型名
-        // 强制文本产出（不需要工具时建议加上，避免无文本输出）
-        // 注意：Responses API 里，input 是消息数组（role + content parts）
-        // 如果你的 APIMessage 已经是正确结构就直接传；否则请在这里做适配
-        messages: messages,
-        enable_thinking: false,
-        response_format: {
-          type: 'json_object',
+      // 通过 responseJsonSchema 强制Gemini返回JSON格式
+      const params: GenerateContentParameters = {
+        model: settings.model,
+        contents: geminiContents,
+        config: {
+          systemInstruction: task.systemPrompt,
+          // Gemini 的思考过程也计入输出 token，需要额外留出预算
+          maxOutputTokens: settings.maxTokens + thinkingBudget,
+          temperature: settings.temperature,
+          thinkingConfig: { thinkingBudget },
+          abortSignal: options.signal,
+          responseMimeType: 'application/json',
+          responseJsonSchema: task.schema,
         },
-      } as ChatCompletionCreateParamsBase)) as ChatCompletion;
+      };
+
+      let text = '';
+      let usage: GenerateContentResponseUsageMetadata | undefined;
+      const { onPartial } = options;
+      if (onPartial) {
+        const stream = await this.gemini.models.generateContentStream(params);
+        for await (const chunk of stream) {
+          text += chunk.text || '';
+          // 用量统计在最后一个分片中返回
+          usage = chunk.usageMetadata || usage;
+          onPartial(parsePartialContent(text));
+        }
+      } else {
+        const response = await this.gemini.models.generateContent(params);
+        text = response.text || '';
+        usage = response.usageMetadata;
+      }
 
-      if (response.choices[0].message.content) {
-        return { content: response.choices[0].message.content };
+      if (!text) {
+        throw new Error('Invalid response from Gemini API');
+      }
+
+      let jsonContent = {};
+      try {
+        jsonContent = JSON.parse(text);
+      } catch (error) {
+        console.error('Gemini API parse failed:', error);
+      }
+
+      // 验证输出是否符合我们的schema
+      if (task.validate(jsonContent)) {
+        return {
+          content: JSON.stringify(jsonContent),
+          usage: fromGeminiUsage(usage),
+        };
+      } else {
+        throw new Error('Structured output validation failed');
       }
-      return { content: '' };
     } catch (error) {
-      console.error('OpenAI API call failed:', error);
-      return this.handleAPIError(error, 'OpenAI');
+      console.error('Gemini API call failed:', error);
+      return this.handleAPIError(error, 'Gemini');
     }
   }
 
   private handleAPIError(error: any, provider: string): never {
-    // 更友好的错误处理
+    // 更友好的错误处理，保留原始错误用于判断是否可以重试
+    const options = { cause: error };
     if (error instanceof Error) {
       if (error.message.includes('401')) {
-        throw new Error(`${provider} API密钥无效，请检查您的配置`);
+        throw new Error(`${provider} API密钥无效，请检查您的配置`, options);
       } else if (error.message.includes('429')) {
-        throw new Error(`${provider} API请求频率过高，请稍后再试`);
+        throw new Error(`${provider} API请求频率过高，请稍后再试`, options);
       } else if (error.message.includes('403')) {
-        throw new Error(`${provider} API权限不足，请检查您的账户状态`);
+        throw new Error(`${provider} API权限不足，请检查您的账户状态`, options);
       } else if (error.message.includes('quota')) {
-        throw new Error(`${provider} API配额已用完，请检查您的账户额度`);
+        throw new Error(
+          `${provider} API配额已用完，请检查您的账户额度`,
+          options
+        );
       }
     }
 
     throw new Error(
       `${provider} 请求失败: ${
         error instanceof Error ? error.message : 'Unknown error'
-      }`
+      }`,
+      options
     );
   }
 
+  // 自定义接口（如本地 Ollama / LM Studio）只需要地址和模型名称，其他服务需要 api key
+  private hasCredentials(): boolean {
+    if (this.config.provider === 'custom') {
+      return !!this.config.customBaseURL && !!this.config.customModel;
+    }
+    return !!this.config.apiKey;
+  }
+
   public updateConfig(newConfig: AIConfig): void {
     this.config = newConfig;
-    if (newConfig.apiKey) {
-      // Reset both clients
-      this.openai = null;
-      this.anthropic = null;
+    // Reset all clients
+    this.openai = null;
+    this.anthropic = null;
+    this.gemini = null;
+    if (this.hasCredentials()) {
       this.initializeClient();
-    } else {
-      this.openai = null;
-      this.anthropic = null;
     }
   }
 
   public isConfigured(): boolean {
+    if (!this.hasCredentials()) return false;
     if (this.config.provider === 'claude') {
-      return !!this.config.apiKey && !!this.anthropic;
+      return !!this.anthropic;
+    } else if (this.config.provider === 'gemini') {
+      return !!this.gemini;
     } else {
-      return !!this.config.apiKey && !!this.openai;
+      return !!this.openai;
     }
   }
 }
@@ -552,6 +877,10 @@ export function buildChatMessages(
     return buildChatgptChatMessages(data);
   } else if (aiConfig.provider === 'qwen') {
     return buildQwenChatMessages(data);
+  } else if (aiConfig.provider === 'gemini') {
+    return buildGeminiChatMessages(data);
+  } else if (aiConfig.provider === 'kimi' || aiConfig.provider === 'custom') {
+    return buildCompatibleChatMessages(data);
   }
   return buildChatgptChatMessages(data);
 }
@@ -559,20 +888,7 @@ export function buildChatMessages(
 function buildClaudeChatMessages(data: ChatMessage[]): APIMessage[] {
   const messages: APIMessage[] = [];
 
-  // 添加完整的对话历史，只区分user和assistant
-  const totalNumMsgs = data.length;
-  const userfulMessages = data.filter((msg, index) => {
-    if (
-      totalNumMsgs > 6 &&
-      index !== 0 &&
-      index !== 1 &&
-      index !== totalNumMsgs - 1 &&
-      index !== totalNumMsgs - 2 &&
-      index !== totalNumMsgs - 3
-    )
-      return false;
-    return msg.sender === 'user' || msg.sender === 'assistant';
-  });
+  const userfulMessages = selectHistoryMessages(data);
 
   userfulMessages.forEach((msg) => {
     const role: 'user' | 'assistant' =
@@ -645,6 +961,9 @@ function buildClaudeChatMessages(data: ChatMessage[]): APIMessage[] {
         text: `小红书文案内容: ${msg.collectedData.content}`,
       };
       content.push(contentObjContent);
+      getCollectedContextTexts(msg.collectedData).forEach((text) => {
+        content.push({ type: 'text', text });
+      });
     } else if (msg.type === 'result' && msg.generatedPostData) {
       const aiContentObjTitle = {
         type: 'text',
@@ -682,20 +1001,7 @@ function buildClaudeChatMessages(data: ChatMessage[]): APIMessage[] {
 function buildChatgptChatMessages(data: ChatMessage[]): APIMessage[] {
   const messages: APIMessage[] = [];
 
-  // 添加完整的对话历史，只区分user和assistant
-  const totalNumMsgs = data.length;
-  const userfulMessages = data.filter((msg, index) => {
-    if (
-      totalNumMsgs > 6 &&
-      index !== 0 &&
-      index !== 1 &&
-      index !== totalNumMsgs - 1 &&
-      index !== totalNumMsgs - 2 &&
-      index !== totalNumMsgs - 3
-    )
-      return false;
-    return msg.sender === 'user' || msg.sender === 'assistant';
-  });
+  const userfulMessages = selectHistoryMessages(data);
 
   userfulMessages.forEach((msg) => {
     const role: 'user' | 'assistant' =
@@ -742,6 +1048,9 @@ function buildChatgptChatMessages(data: ChatMessage[]): APIMessage[] {
         text: `小红书文案内容: ${msg.collectedData.content}`,
       };
       content.push(contentObjContent);
+      getCollectedContextTexts(msg.collectedData).forEach((text) => {
+        content.push({ type: 'input_text', text });
+      });
     } else if (msg.type === 'result' && msg.generatedPostData) {
       const aiContentObjTitle = {
         type: 'output_text',
@@ -785,12 +1094,10 @@ function buildChatgptChatMessages(data: ChatMessage[]): APIMessage[] {
   return messages;
 }
 
-function buildQwenChatMessages(data: ChatMessage[]): APIMessage[] {
-  const messages: APIMessage[] = [];
-
-  // 添加完整的对话历史，只区分user和assistant
+// 对话历史较长时只保留开头两条和最近三条，只区分user和assistant
+function selectHistoryMessages(data: ChatMessage[]): ChatMessage[] {
   const totalNumMsgs = data.length;
-  const userfulMessages = data.filter((msg, index) => {
+  return data.filter((msg, index) => {
     if (
       totalNumMsgs > 6 &&
       index !== 0 &&
@@ -802,194 +1109,421 @@ function buildQwenChatMessages(data: ChatMessage[]): APIMessage[] {
       return false;
     return msg.sender === 'user' || msg.sender === 'assistant';
   });
+}
 
-  userfulMessages.forEach((msg) => {
+// 各家接口的图片和文本分片格式
+interface ContentPartFormat {
+  image: (img: string) => unknown;
+  text: (text: string) => unknown;
+}
+
+// 图片和文本分片格式不同、其余结构相同的接口共用
+function buildPartsChatMessages(
+  data: ChatMessage[],
+  format: ContentPartFormat
+): APIMessage[] {
+  return selectHistoryMessages(data).map((msg) => {
     const role: 'user' | 'assistant' =
       msg.sender === 'user' ? 'user' : 'assistant';
-    const content: any[] = [];
+    const texts: string[] = [];
+    let images: string[] = [];
 
-    // Handle user messages with uploaded images
     if (msg.sender === 'user' && msg.userMessage) {
-      // Add user uploaded images
-      if (msg.userMessage.images && msg.userMessage.images.length > 0) {
-        const imageObjects = msg.userMessage.images.map((img) => {
-          return {
-            type: 'image_url',
-            image_url: img,
-          };
-        });
-        content.push(...imageObjects);
-      }
-
-      // Add user text content
-      const textContent = {
-        type: 'text',
-        text: msg.userMessage.content,
-      };
-      content.push(textContent);
+      images = msg.userMessage.images || [];
+      texts.push(msg.userMessage.content);
     } else if (msg.type === 'collected' && msg.collectedData) {
-      const imgs = msg.collectedData.images || [];
-      if (imgs.length > 0) {
-        const imageObjects = imgs.map((img) => {
-          return {
-            type: 'image_url',
-            image_url: img,
-          };
-        });
-        content.push(...imageObjects);
-      }
-      const contentObjTitle = {
-        type: 'text',
-        text: `小红书文案标题: ${msg.collectedData.title}`,
-      };
-      content.push(contentObjTitle);
-      const contentObjContent = {
-        type: 'text',
-        text: `小红书文案内容: ${msg.collectedData.content}`,
-      };
-      content.push(contentObjContent);
+      images = msg.collectedData.images || [];
+      texts.push(
+        `小红书文案标题: ${msg.collectedData.title}`,
+        `小红书文案内容: ${msg.collectedData.content}`,
+        ...getCollectedContextTexts(msg.collectedData)
+      );
     } else if (msg.type === 'result' && msg.generatedPostData) {
-      const aiContentObjTitle = {
-        type: 'text',
-        text: `AI生成的小红书文案标题: ${msg.generatedPostData.title}`,
-      };
-      content.push(aiContentObjTitle);
-      const aiContentObjContent = {
-        type: 'text',
-        text: `AI生成的小红书文案内容: ${msg.generatedPostData.content}`,
-      };
-      content.push(aiContentObjContent);
+      texts.push(
+        `AI生成的小红书文案标题: ${msg.generatedPostData.title}`,
+        `AI生成的小红书文案内容: ${msg.generatedPostData.content}`
+      );
     } else if (msg.type === 'result' && msg.generatedCommentData) {
-      const aiContentObjComment = {
-        type: 'text',
-        text: `AI生成的小红书评论内容: ${msg.generatedCommentData.content}`,
-      };
-      content.push(aiContentObjComment);
+      texts.push(`AI生成的小红书评论内容: ${msg.generatedCommentData.content}`);
     } else {
-      let contentObj = {};
-      if (msg.sender === 'user') {
-        contentObj = {
-          type: 'text',
-          text: msg.content || '',
-        };
-      } else {
-        contentObj = {
-          type: 'text',
-          text: msg.content || '',
-        };
-      }
-
-      content.push(contentObj);
+      texts.push(msg.content || '');
     }
 
-    messages.push({
+    return {
       role,
-      content: content,
-    });
+      content: [...images.map(format.image), ...texts.map(format.text)],
+    };
   });
-  return messages;
 }
 
-// 验证响应是否符合Schema
-export function validateContentResponse(
-  response: any,
-  msgSource: MessageSource = 'post'
-): response is { title?: string; content: string } {
+function buildQwenChatMessages(data: ChatMessage[]): APIMessage[] {
+  return buildPartsChatMessages(data, {
+    image: (img) => ({ type: 'image_url', image_url: img }),
+    text: (text) => ({ type: 'text', text }),
+  });
+}
+
+// Gemini 的图片以 inlineData 形式传入，只需要纯 base64 编码部分
+function buildGeminiChatMessages(data: ChatMessage[]): APIMessage[] {
+  return buildPartsChatMessages(data, {
+    image: (img) => ({
+      inlineData: { mimeType: 'image/jpeg', data: stripBase64Prefix(img) },
+    }),
+    text: (text) => ({ text }),
+  });
+}
+
+// 标准 OpenAI chat completions 格式（Kimi、自定义接口使用）
+function buildCompatibleChatMessages(data: ChatMessage[]): APIMessage[] {
+  return buildPartsChatMessages(data, {
+    image: (img) => ({ type: 'image_url', image_url: { url: img } }),
+    text: (text) => ({ type: 'text', text }),
+  });
+}
+
+function fromAnthropicUsage(usage: Anthropic.Usage): TokenUsage {
+  return {
+    // 命中或写入缓存的 token 也计入输入
+    inputTokens:
+      usage.input_tokens +
+      (usage.cache_creation_input_tokens || 0) +
+      (usage.cache_read_input_tokens || 0),
+    outputTokens: usage.output_tokens,
+  };
+}
+
+function fromOpenAIResponseUsage(
+  usage?: OpenAI.Responses.ResponseUsage
+): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return { inputTokens: usage.input_tokens, outputTokens: usage.output_tokens };
+}
+
+function fromCompletionUsage(
+  usage?: OpenAI.CompletionUsage
+): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    inputTokens: usage.prompt_tokens,
+    outputTokens: usage.completion_tokens,
+  };
+}
+
+function fromGeminiUsage(
+  usage?: GenerateContentResponseUsageMetadata
+): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    inputTokens: usage.promptTokenCount || 0,
+    // 思考 token 按输出计费
+    outputTokens:
+      (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0),
+  };
+}
+
+// 将输出任务转换为 Claude 的 tool 格式
+function toAnthropicTool(task: OutputTask): Anthropic.Tool {
+  return {
+    name: task.name,
+    description: task.description,
+    input_schema: { ...task.schema },
+  };
+}
+
+// 将输出任务转换为 OpenAI Responses 接口的 function tool 格式
+function toResponsesTool(task: OutputTask): FunctionTool {
+  return {
+    type: 'function',
+    // strict 模式要求所有字段都在 required 中，并禁止额外字段
+    strict: true,
+    name: task.name,
+    description: task.description,
+    parameters: { ...task.schema },
+  };
+}
+
+// 16x16 的纯色 PNG，用于测试模型是否支持图片输入（部分模型要求图片边长大于10px）
+const TEST_IMAGE_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAABAAAAAQCAIAAACQkWg2AAAAFklEQVR42mP4r+JEEmIY1TCqYfhqAACIHWUQ4dOL0wAAAABJRU5ErkJggg==';
+
+// 将连通性测试的错误归类为：密钥无效、模型不存在、网络错误或其他错误
+function classifyConnectionError(
+  error: unknown,
+  signal?: AbortSignal
+): ConnectionTestResult {
+  const original: any = error;
+  const status = typeof original?.status === 'number' ? original.status : 0;
+  const message = String(original?.message || '');
+  const lowerMessage = message.toLowerCase();
+
+  if (signal?.aborted) {
+    return {
+      status: 'network_error',
+      message: '连接超时，请检查网络或接口地址',
+    };
+  }
+  if (
+    status === 401 ||
+    status === 403 ||
+    /api[ _-]?key|unauthorized|authentication/.test(lowerMessage)
+  ) {
+    return { status: 'invalid_key', message: 'API Key 无效或没有访问权限' };
+  }
+  if (
+    status === 404 ||
+    /model.*(not[ _]?found|not exist|does not exist)|model_not_found/.test(
+      lowerMessage
+    )
+  ) {
+    return {
+      status: 'model_not_found',
+      message: '模型不存在或当前账户无权使用，请检查模型名称',
+    };
+  }
+  if (
+    original?.name === 'APIConnectionError' ||
+    original?.name === 'APIConnectionTimeoutError' ||
+    original instanceof TypeError
+  ) {
+    return {
+      status: 'network_error',
+      message: '网络连接失败，请检查网络或接口地址',
+    };
+  }
+  return {
+    status: 'error',
+    message: `连接失败: ${message || 'Unknown error'}`,
+  };
+}
+
+// 笔记标题和内容之外的上下文：视频说明、笔记信息、已有的热门评论、要回复的评论、用户偏好的措辞
+function getCollectedContextTexts(collectedData: CollectedContent): string[] {
+  const texts: string[] = [];
+  if (collectedData.mediaType === 'video') {
+    texts.push(
+      collectedData.images.length > 0
+        ? '这是一篇视频笔记，图片依次为视频封面和按时间顺序截取的视频画面'
+        : '这是一篇视频笔记，未能获取到视频画面'
+    );
+  }
+  if (collectedData.metadata) {
+    texts.push(formatNoteMetadata(collectedData.metadata));
+  }
+  if (collectedData.topComments && collectedData.topComments.length > 0) {
+    texts.push(formatTopComments(collectedData.topComments));
+  }
+  if (collectedData.replyTarget) {
+    texts.push(formatReplyTarget(collectedData.replyTarget));
+  }
   if (
-    typeof response !== 'object' ||
-    response === null ||
-    typeof response.content !== 'string' ||
-    response.content.length > 10000
+    collectedData.preferredWordings &&
+    collectedData.preferredWordings.length > 0
   ) {
-    return false;
+    texts.push(formatPreferredWordings(collectedData.preferredWordings));
   }
+  return texts;
+}
 
-  // For post messages, title is required
-  if (msgSource === 'post') {
-    return typeof response.title === 'string' && response.title.length <= 100;
+// 将笔记信息整理为文字，帮助模型根据作者体量、热度和地点调整语气
+function formatNoteMetadata(metadata: NoteMetadata): string {
+  const lines = ['笔记信息:'];
+  if (metadata.author) lines.push(`作者: ${metadata.author}`);
+  if (metadata.tags.length > 0) {
+    lines.push(`话题: ${metadata.tags.map((tag) => `#${tag}`).join(' ')}`);
   }
+  lines.push(
+    `互动: ${metadata.likeCount}赞 ${metadata.collectCount}收藏 ${metadata.commentCount}评论`
+  );
+  if (metadata.publishTime) lines.push(`发布时间: ${metadata.publishTime}`);
+  if (metadata.location) lines.push(`发布地点: ${metadata.location}`);
+  return lines.join('\n');
+}
 
-  // For comment messages, title is optional
-  return true;
+// 将已有评论整理为文字，标注点赞数、置顶和作者身份
+function formatTopComments(comments: CollectedComment[]): string {
+  const lines = comments.map((comment, index) => {
+    const tags = [
+      comment.isPinned && '置顶',
+      comment.isAuthor && '作者',
+      `${comment.likeCount}赞`,
+    ].filter(Boolean);
+    return `${index + 1}. ${comment.author}（${tags.join('，')}）: ${comment.content}`;
+  });
+  return `笔记下已有的评论:\n${lines.join('\n')}`;
 }
 
-// 小红书内容生成的系统提示词
-const postSystemPrompt = `你是一个专业的小红书内容创作专家，擅长创作吸引人的标题和内容。
+// 将要回复的评论整理为文字，楼中楼会带上所在楼层的主评论
+function formatReplyTarget(target: ReplyTarget): string {
+  const lines = ['要回复的评论:'];
+  if (target.parentComment) {
+    lines.push(
+      `楼层主评论（${target.parentComment.author}）: ${target.parentComment.content}`
+    );
+  }
+  lines.push(`${target.author}: ${target.content}`);
+  return lines.join('\n');
+}
 
-请根据用户提供的图片和内容以及要求，生成符合小红书风格的标题和正文内容。
+// 将用户对生成结果的修改整理为文字，让模型参考用户偏好的措辞
+function formatPreferredWordings(edits: WordingEdit[]): string {
+  const lines = edits.map(
+    (edit, index) =>
+      `${index + 1}. 原文: ${edit.original}\n   用户修改为: ${edit.edited}`
+  );
+  return `用户之前对生成内容做过以下修改，请参考用户偏好的措辞和风格:\n${lines.join('\n')}`;
+}
 
-要求：
-1. 标题要吸引人，有点击欲望，不超过20个字符
-2. 内容要有价值，可读性强，符合小红书用户喜好
-3. 适当使用表情符号和话题标签（#标签#）
-4. 语言风格要亲切自然，贴近用户`;
+// 判断OpenAI模型是否为推理模型（gpt-5、o系列）
+function isOpenAIReasoningModel(model: string): boolean {
+  return model.startsWith('gpt-5') || /^o\d/.test(model);
+}
 
-// 小红书评论生成的系统提示词
-const commentSystemPrompt = `你是一个专业的小红书评论助手，擅长生成有趣、有价值的评论内容。
+// 将推理强度换算为Gemini的思考预算（2.5 Pro 不支持关闭思考，最低128）
+function getGeminiThinkingBudget(
+  model: string,
+  effort: ReasoningEffort
+): number {
+  const budgets: Record<ReasoningEffort, number> = {
+    minimal: model.includes('pro') ? 128 : 0,
+    low: 1024,
+    medium: 4096,
+    high: 16384,
+  };
+  return budgets[effort];
+}
 
-请根据用户提供的笔记图片和内容以及要求，生成一条简短的评论。
+// 判断Kimi模型是否支持图片输入
+function isKimiVisionModel(model: string): boolean {
+  return model === 'kimi-latest' || model.includes('vision');
+}
 
-要求：
-1. 评论要真诚自然，符合小红书社区氛围
-2. 适当使用表情符号，让评论更生动
-3. 字数控制在100字以内
-`;
+// 将消息转换为纯文本格式（用于不支持图片的模型），图片以文字说明代替
+function toTextOnlyMessages(messages: APIMessage[]): any[] {
+  return messages.map((msg) => {
+    const texts: string[] = [];
+    let imageCount = 0;
+    msg.content.forEach((part) => {
+      if (part.type === 'text') {
+        texts.push(part.text);
+      } else if (part.type === 'image_url') {
+        imageCount++;
+      }
+    });
+    if (imageCount > 0) {
+      texts.unshift(
+        `[附带${imageCount}张图片，当前模型不支持识别图片，请仅根据文字内容处理]`
+      );
+    }
+    return {
+      role: msg.role,
+      content: texts.join('\n'),
+    };
+  });
+}
 
-/** 安全 JSON 解析：字符串→对象；对象原样返回；失败返回 null */
-function safeParseJSON<T = any>(val: unknown): T | null {
-  if (val == null) return null;
-  if (typeof val === 'string') {
-    try {
-      return JSON.parse(val) as T;
-    } catch {
-      return null;
+// 解析自定义请求头，每行一个 "Header-Name: value"
+function parseCustomHeaders(headers?: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (!headers) return result;
+  headers.split('\n').forEach((line) => {
+    const colonIndex = line.indexOf(':');
+    if (colonIndex <= 0) return;
+    const name = line.substring(0, colonIndex).trim();
+    const value = line.substring(colonIndex + 1).trim();
+    if (name) {
+      result[name] = value;
     }
-  }
-  if (typeof val === 'object') return val as T;
-  return null;
-}
-
-/** 从 Responses 返回里提取指定工具的 arguments（兼容多种返回形态） */
-function extractToolArgs(resp: any, toolName: string): any | null {
-  // A) 常见：message.tool_calls[*].arguments
-  if (Array.isArray(resp?.output)) {
-    for (const item of resp.output) {
-      if (item?.type === 'message') {
-        if (Array.isArray(item.tool_calls)) {
-          for (const tc of item.tool_calls) {
-            if (tc?.name === toolName && tc?.arguments != null) {
-              const parsed = safeParseJSON(tc.arguments);
-              if (parsed) return parsed;
-            }
-          }
-        }
-        // B) 有些实现把 tool 调用放在 content 分片里
-        if (Array.isArray(item.content)) {
-          for (const part of item.content) {
-            const t = String(part?.type || '');
-            if (
-              (t === 'tool_use' || t === 'tool' || t === 'tool_call') &&
-              part?.name === toolName
-            ) {
-              const args = part?.input ?? part?.arguments;
-              const parsed = safeParseJSON(args);
-              if (parsed) return parsed;
-            }
-          }
-        }
-      }
-      // C) 独立的 tool_call item（不在 message 内）
-      const t = String(item?.type || '');
-      if (t.includes('tool') && item?.name === toolName) {
-        const args = item?.input ?? item?.arguments;
-        const parsed = safeParseJSON(args);
-        if (parsed) return parsed;
-      }
+  });
+  return result;
+}
+
+// 流式返回的JSON可能不完整，从中读取已生成的字符串字段
+// inArray 为 true 时读取数组字段的第一个元素
+function extractPartialStringField(
+  json: string,
+  field: string,
+  inArray = false
+): string | undefined {
+  const match = new RegExp(
+    `"${field}"\\s*:\\s*${inArray ? '\\[\\s*' : ''}"`
+  ).exec(json);
+  if (!match) return undefined;
+
+  const escapes: Record<string, string> = {
+    n: '\n',
+    t: '\t',
+    r: '\r',
+    b: '\b',
+    f: '\f',
+  };
+  let result = '';
+  for (let i = match.index + match[0].length; i < json.length; i++) {
+    const char = json[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      result += char;
+      continue;
+    }
+    // 转义序列可能被截断在分片末尾，等下一个分片再处理
+    const next = json[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = json.substring(i + 2, i + 6);
+      if (hex.length < 4) break;
+      result += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      result += escapes[next] ?? next;
+      i += 1;
     }
   }
+  return result;
+}
+
+// 解析流式返回中不完整的JSON，得到部分标题和内容，多候选时预览第一个候选
+export function parsePartialContent(json: string): PartialGeneratedContent {
+  return {
+    title:
+      extractPartialStringField(json, 'title') ??
+      extractPartialStringField(json, 'titles', true),
+    content:
+      extractPartialStringField(json, 'content') ??
+      extractPartialStringField(json, 'contents', true),
+  };
+}
 
-  // D) 某些 SDK 会提供已解析对象
-  if (resp?.output_parsed) return resp.output_parsed;
+// Claude 流式返回的是解析好的部分对象，同样在多候选时取第一个候选
+function toPartialContent(snapshot: unknown): PartialGeneratedContent {
+  const record = (snapshot || {}) as Record<string, unknown>;
+  const pick = (field: string, variantField: string) => {
+    const variants = record[variantField];
+    const value =
+      record[field] ?? (Array.isArray(variants) ? variants[0] : undefined);
+    return typeof value === 'string' ? value : undefined;
+  };
+  return {
+    title: pick('title', 'titles'),
+    content: pick('content', 'contents'),
+  };
+}
+
+// 验证响应是否符合Schema
+export function validateContentResponse(
+  response: any,
+  msgSource: MessageSource = 'post'
+): response is { title?: string; content: string } {
+  return getOutputTask(msgSource).validate(response);
+}
 
-  return null;
+// 校验多候选生成结果，至少要有一个候选
+export function validateVariantsResponse(
+  response: any,
+  msgSource: MessageSource,
+  variants: VariantCounts
+): response is { titles?: string[]; contents: string[] } {
+  return (
+    getOutputTask(msgSource, variants).validate(response) &&
+    response.contents.length > 0 &&
+    (msgSource !== 'post' || response.titles.length > 0)
+  );
 }
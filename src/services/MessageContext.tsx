@@ -1,10 +1,42 @@
-import React, { useReducer } from 'react';
+import React, { useEffect, useReducer, useRef } from 'react';
 import { MessagesContext, MessagesDispatchContext } from './messageHooks';
-import { messagesReducer, initialMessages } from './messageTypes';
+import {
+  messagesReducer,
+  initialMessages,
+  type ChatMessage,
+} from './messageTypes';
+import { getConversationId, saveConversation } from './conversationHistory';
+
+// 消息变化后等待一段时间再保存，避免连续更新时频繁写入
+const SAVE_DELAY_MS = 500;
+
+function persistConversation(messages: ChatMessage[]) {
+  saveConversation(messages).catch((error) =>
+    console.error('Failed to save conversation:', error)
+  );
+}
 
 export function MessagesProvider({ children }: { children: React.ReactNode }) {
   const [messages, dispatch] = useReducer(messagesReducer, initialMessages);
 
+  const pendingSaveRef = useRef<ChatMessage[] | null>(null);
+
+  // 把会话保存到 IndexedDB，关闭侧边栏后可以从历史记录中重新打开
+  useEffect(() => {
+    // 切换到新的会话（收集了新内容或打开了历史会话）时，立即保存还没保存的上一个会话
+    const pending = pendingSaveRef.current;
+    if (pending && getConversationId(pending) !== getConversationId(messages)) {
+      persistConversation(pending);
+    }
+
+    pendingSaveRef.current = messages;
+    const timer = setTimeout(() => {
+      pendingSaveRef.current = null;
+      persistConversation(messages);
+    }, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [messages]);
+
   return (
     <MessagesContext.Provider value={messages}>
       <MessagesDispatchContext.Provider value={dispatch}>
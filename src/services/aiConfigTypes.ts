@@ -1,4 +1,11 @@
-import type { AIConfig } from '../components/SettingsPanel';
+import type {
+  AIConfig,
+  AIProvider,
+  ModelSettings,
+  ReasoningEffort,
+  RetryPolicy,
+} from '../components/SettingsPanel';
+import type { MessageSource } from './messageTypes';
 
 // Define action types for AI configuration
 export type AIConfigAction =
@@ -12,6 +19,117 @@ export const defaultAIConfig: AIConfig = {
   apiKey: '',
 };
 
+export const PROVIDER_LABELS: Record<AIProvider, string> = {
+  chatgpt: 'ChatGPT',
+  claude: 'Claude',
+  gemini: 'Gemini',
+  qwen: '通义千问',
+  kimi: 'Kimi',
+  custom: '自定义接口',
+};
+
+export const defaultRetryPolicy: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+};
+
+// 各大模型可选的模型列表（设置面板中也可以手动输入其他模型名称）
+export const PROVIDER_MODELS: Record<AIProvider, string[]> = {
+  chatgpt: ['gpt-5', 'gpt-5-mini', 'gpt-5-nano', 'gpt-4.1', 'gpt-4.1-mini'],
+  claude: [
+    'claude-sonnet-4-20250514',
+    'claude-opus-4-1-20250805',
+    'claude-3-5-haiku-20241022',
+  ],
+  gemini: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'],
+  qwen: ['qwen-vl-plus', 'qwen-vl-max'],
+  kimi: [
+    'kimi-k2-0905-preview',
+    'kimi-k2-turbo-preview',
+    'kimi-latest',
+    'moonshot-v1-32k-vision-preview',
+  ],
+  custom: [],
+};
+
+// 支持调节推理强度的大模型
+export const REASONING_PROVIDERS: AIProvider[] = ['chatgpt', 'gemini'];
+
+export const REASONING_EFFORT_LABELS: Record<ReasoningEffort, string> = {
+  minimal: '最低',
+  low: '低',
+  medium: '中',
+  high: '高',
+};
+
+// 各大模型的默认生成参数
+export const defaultModelSettings: Record<AIProvider, ModelSettings> = {
+  chatgpt: { model: 'gpt-5', maxTokens: 4096, reasoningEffort: 'low' },
+  claude: {
+    model: 'claude-sonnet-4-20250514',
+    maxTokens: 1024,
+    reasoningEffort: 'low',
+  },
+  gemini: {
+    model: 'gemini-2.5-flash',
+    maxTokens: 1024,
+    reasoningEffort: 'minimal',
+  },
+  qwen: { model: 'qwen-vl-plus', maxTokens: 1024, reasoningEffort: 'low' },
+  kimi: {
+    model: 'kimi-k2-0905-preview',
+    maxTokens: 2048,
+    reasoningEffort: 'low',
+  },
+  custom: { model: '', maxTokens: 1024, reasoningEffort: 'low' },
+};
+
+// 合并用户设置和默认值，得到某个大模型完整的生成参数
+export function getModelSettings(
+  config: AIConfig,
+  provider: AIProvider = config.provider
+): ModelSettings {
+  return {
+    ...defaultModelSettings[provider],
+    ...config.modelSettings?.[provider],
+  };
+}
+
+// 根据生成类型解析出本次请求实际使用的模型和参数
+export function resolveModelSettings(
+  config: AIConfig,
+  msgSource: MessageSource
+): ModelSettings {
+  const settings = getModelSettings(config);
+  // 自定义接口的模型名称在接口配置中填写，其他模型名称留空时使用默认模型
+  const model =
+    config.provider === 'custom'
+      ? config.customModel || ''
+      : settings.model || defaultModelSettings[config.provider].model;
+  return {
+    ...settings,
+    model:
+      msgSource !== 'post' && settings.commentModel
+        ? settings.commentModel
+        : model,
+  };
+}
+
+// 得到使用指定大模型时的配置（api key 取该模型保存的 key）
+export function getProviderConfig(
+  config: AIConfig,
+  provider: AIProvider
+): AIConfig {
+  if (provider === config.provider) {
+    return config;
+  }
+  return {
+    ...config,
+    provider,
+    apiKey: config.apiKeys?.[provider] || '',
+  };
+}
+
 // Get initial AI config from localStorage
 export function getInitialAIConfig(): AIConfig {
   try {
@@ -0,0 +1,164 @@
+import type {
+  AIConfig,
+  AIProvider,
+  RetryPolicy,
+} from '../components/SettingsPanel';
+import {
+  AIService,
+  buildChatMessages,
+  type AIResponse,
+  type ChatCompletionOptions,
+} from './AIService';
+import {
+  PROVIDER_LABELS,
+  defaultRetryPolicy,
+  getProviderConfig,
+  resolveModelSettings,
+} from './aiConfigTypes';
+import type { ChatMessage, MessageSource } from './messageTypes';
+import { recordUsage } from './usageLedger';
+import { attachPreferredWordings } from './wordingPreferences';
+import { resolveSystemPrompt } from './promptTemplates';
+
+// 重试等待的上限，避免指数增长后等待过久
+const MAX_RETRY_DELAY_MS = 15000;
+
+// 判断错误是否是暂时性的（429、5xx、网络错误），这类错误值得重试
+export function isTransientError(error: unknown): boolean {
+  const original: any =
+    error instanceof Error && error.cause ? error.cause : error;
+  if (!original) return false;
+
+  // 额度用完同样返回429，但重试没有意义
+  const message = String(original.message || '').toLowerCase();
+  if (message.includes('quota')) return false;
+
+  const status = typeof original.status === 'number' ? original.status : 0;
+  if (status === 429 || status >= 500) return true;
+
+  // SDK 的连接错误和 fetch 的网络错误
+  return (
+    original.name === 'APIConnectionError' ||
+    original.name === 'APIConnectionTimeoutError' ||
+    original instanceof TypeError
+  );
+}
+
+// 指数退避 + 随机抖动：base * 2^attempt，再取其 50%~100%
+function getRetryDelay(attempt: number, policy: RetryPolicy): number {
+  const delay = Math.min(policy.baseDelayMs * 2 ** attempt, MAX_RETRY_DELAY_MS);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+// 可以被取消的等待
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Request aborted'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Request aborted'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// 按重试策略调用，遇到暂时性错误时等待后重试
+async function withRetry<T>(
+  request: () => Promise<T>,
+  policy: RetryPolicy,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (
+        signal?.aborted ||
+        attempt >= policy.maxRetries ||
+        !isTransientError(error)
+      ) {
+        throw error;
+      }
+      const delay = getRetryDelay(attempt, policy);
+      console.warn(
+        `AI请求失败，${Math.round(delay)}ms 后进行第 ${attempt + 1} 次重试:`,
+        error
+      );
+      await sleep(delay, signal);
+    }
+  }
+}
+
+// 依次使用当前模型和备用模型生成，每个模型都会按重试策略重试
+export async function generateWithFallback(
+  data: ChatMessage[],
+  msgSource: MessageSource,
+  aiConfig: AIConfig,
+  options: ChatCompletionOptions = {}
+): Promise<AIResponse> {
+  const providers: AIProvider[] = [
+    aiConfig.provider,
+    ...(aiConfig.fallbackProviders || []).filter(
+      (provider) => provider !== aiConfig.provider
+    ),
+  ];
+  const retryPolicy = aiConfig.retryPolicy || defaultRetryPolicy;
+  // 附带用户之前修改过的措辞，让生成结果更贴近用户习惯
+  const contextData = await attachPreferredWordings(data, msgSource);
+  const completionOptions: ChatCompletionOptions = {
+    ...options,
+    systemPrompt: resolveSystemPrompt(
+      aiConfig.promptTemplates,
+      msgSource,
+      data
+    ),
+  };
+
+  let lastError: unknown;
+  for (const provider of providers) {
+    try {
+      const providerConfig = getProviderConfig(aiConfig, provider);
+      const aiService = new AIService(providerConfig);
+      const chatMessages = buildChatMessages(contextData, providerConfig);
+      const response = await withRetry(
+        () => {
+          // 清空上一次失败的尝试留下的流式预览
+          options.onPartial?.({});
+          return aiService.chatCompletion(
+            chatMessages,
+            msgSource,
+            completionOptions
+          );
+        },
+        retryPolicy,
+        options.signal
+      );
+      const { model } = resolveModelSettings(providerConfig, msgSource);
+      const cost = response.usage
+        ? await recordUsage(provider, model, response.usage).catch((error) => {
+            // 记账失败不影响生成结果
+            console.error('Failed to record usage:', error);
+            return undefined;
+          })
+        : undefined;
+      return { ...response, provider, model, cost };
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      console.error(`${PROVIDER_LABELS[provider]} 生成失败:`, error);
+      // 第一个错误通常最能说明问题（如未配置当前模型的 api key）
+      if (lastError === undefined) {
+        lastError = error;
+      }
+    }
+  }
+  throw lastError;
+}
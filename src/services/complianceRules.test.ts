@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_COMPLIANCE_RULES,
+  checkCompliance,
+  exportComplianceRules,
+  parseComplianceRulesImport,
+  type ComplianceRule,
+} from './complianceRules';
+
+const words = (text: string, rules = DEFAULT_COMPLIANCE_RULES) =>
+  checkCompliance(text, rules).map((hit) => hit.text);
+
+describe('checkCompliance', () => {
+  it('返回命中的位置和规则', () => {
+    const [hit] = checkCompliance('这是最好的面霜', DEFAULT_COMPLIANCE_RULES);
+    expect(hit).toMatchObject({ text: '最好', start: 2, end: 4 });
+    expect(hit.rule.replacement).toBe('很好');
+  });
+
+  it('较长的词优先命中，位置不重叠', () => {
+    expect(words('全网最低价')).toEqual(['全网最低']);
+    expect(words('今天最低价入手')).toEqual(['最低价']);
+  });
+
+  it('不把最近、最后等普通用法当作极限词', () => {
+    expect(words('最近最后一次去')).toEqual([]);
+  });
+
+  it('英文词不区分大小写，并保留原文', () => {
+    expect(words('有问题加Vx')).toEqual(['Vx']);
+  });
+
+  it('英文词不命中普通单词和链接中的字母', () => {
+    expect(words('QQmusic 和 https://www.wxyz.com')).toEqual([]);
+    expect(words('awx 和 box')).toEqual([]);
+  });
+
+  it('英文词后紧跟数字时仍然命中', () => {
+    expect(words('联系vx123，或者QQ 10001')).toEqual(['vx', 'QQ']);
+  });
+
+  it('忽略空的规则', () => {
+    const rules: ComplianceRule[] = [
+      { word: ' ', category: 'custom', severity: 'severe' },
+    ];
+    expect(checkCompliance('任意文字', rules)).toEqual([]);
+  });
+});
+
+describe('parseComplianceRulesImport', () => {
+  it('导入本插件导出的规则文件', () => {
+    const rules: ComplianceRule[] = [
+      {
+        word: '神器',
+        category: 'custom',
+        severity: 'warning',
+        replacement: '',
+      },
+      {
+        word: '最好',
+        category: 'absolute',
+        severity: 'severe',
+        replacement: '很好',
+      },
+    ];
+    expect(
+      parseComplianceRulesImport(exportComplianceRules(rules).content)
+    ).toEqual(rules);
+  });
+
+  it('JSON 数组中缺少或无效的字段使用默认值', () => {
+    const text = JSON.stringify([
+      { word: ' 神器 ', category: 'unknown', severity: 'unknown' },
+      { word: '' },
+      { category: 'medical' },
+    ]);
+    expect(parseComplianceRulesImport(text)).toEqual([
+      { word: '神器', category: 'custom', severity: 'severe', replacement: '' },
+    ]);
+  });
+
+  it('按行导入文本，跳过空行和 # 开头的注释', () => {
+    const text = '\ufeff# 自定义\n神器 = 好物\r\n\n秒杀\n';
+    expect(parseComplianceRulesImport(text)).toEqual([
+      {
+        word: '神器',
+        category: 'custom',
+        severity: 'severe',
+        replacement: '好物',
+      },
+      { word: '秒杀', category: 'custom', severity: 'severe', replacement: '' },
+    ]);
+  });
+
+  it('文件内容无效时报错', () => {
+    expect(() => parseComplianceRulesImport('  \n')).toThrow('文件内容为空');
+    expect(() => parseComplianceRulesImport('{ rules: [')).toThrow(
+      '文件不是有效的 JSON'
+    );
+    expect(() =>
+      parseComplianceRulesImport(JSON.stringify({ format: 'other', rules: [] }))
+    ).toThrow('不是本插件导出的规则文件');
+  });
+});
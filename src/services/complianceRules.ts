@@ -0,0 +1,299 @@
+import type { ExportFile } from './conversationExport';
+
+// 违禁词检查：广告法极限词、医疗用语、引流到站外的词，命中后笔记可能被限流
+export type ComplianceCategory = 'absolute' | 'medical' | 'redirect' | 'custom';
+
+// severe 为严重，应用到页面前需要确认；warning 仅提示
+export type ComplianceSeverity = 'severe' | 'warning';
+
+export interface ComplianceRule {
+  // 违禁词，英文不区分大小写
+  word: string;
+  category: ComplianceCategory;
+  severity: ComplianceSeverity;
+  // 建议替换的说法，留空表示建议删除
+  replacement?: string;
+}
+
+export interface ComplianceHit {
+  rule: ComplianceRule;
+  // 命中的原文（保留原来的大小写）
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface ComplianceReport {
+  title: ComplianceHit[];
+  content: ComplianceHit[];
+}
+
+export const COMPLIANCE_CATEGORY_LABELS: Record<ComplianceCategory, string> = {
+  absolute: '极限词',
+  medical: '医疗用语',
+  redirect: '站外引流',
+  custom: '自定义',
+};
+
+export const COMPLIANCE_SEVERITY_LABELS: Record<ComplianceSeverity, string> = {
+  severe: '严重',
+  warning: '提示',
+};
+
+const rule = (
+  category: ComplianceCategory,
+  severity: ComplianceSeverity,
+  word: string,
+  replacement?: string
+): ComplianceRule => ({ word, category, severity, replacement });
+
+export const DEFAULT_COMPLIANCE_RULES: ComplianceRule[] = [
+  // 广告法禁止的绝对化用语；“最”单独出现时多为最近、最后等普通用法，只收录“最+形容词”
+  rule('absolute', 'severe', '最好', '很好'),
+  rule('absolute', 'severe', '最佳', '优秀'),
+  rule('absolute', 'severe', '最强', '很强'),
+  rule('absolute', 'severe', '最优', '优秀'),
+  rule('absolute', 'severe', '最高', '很高'),
+  rule('absolute', 'severe', '最低', '很低'),
+  rule('absolute', 'severe', '最大', '超大'),
+  rule('absolute', 'severe', '最小', '超小'),
+  rule('absolute', 'severe', '最全', '很全'),
+  rule('absolute', 'warning', '最新', '新'),
+  rule('absolute', 'severe', '最美', '超美'),
+  rule('absolute', 'severe', '最火', '超火'),
+  rule('absolute', 'severe', '最热', '热门'),
+  rule('absolute', 'severe', '最红', '热门'),
+  rule('absolute', 'warning', '最爱', '超爱'),
+  rule('absolute', 'severe', '最值', '很值'),
+  rule('absolute', 'severe', '最划算', '很划算'),
+  rule('absolute', 'severe', '最实惠', '很实惠'),
+  rule('absolute', 'severe', '最便宜', '很划算'),
+  rule('absolute', 'severe', '最低价', '优惠价'),
+  rule('absolute', 'severe', '最高级', '高品质'),
+  rule('absolute', 'severe', '最先进', '先进'),
+  rule('absolute', 'severe', '最受欢迎', '很受欢迎'),
+  rule('absolute', 'severe', '最时尚', '很时尚'),
+  rule('absolute', 'severe', '最舒服', '很舒服'),
+  rule('absolute', 'severe', '最有效', '很有效'),
+  rule('absolute', 'severe', '最安全', '很安全'),
+  rule('absolute', 'severe', '最正宗', '地道'),
+  rule('absolute', 'severe', '全网最低', '超划算'),
+  rule('absolute', 'severe', '史上最', '超'),
+  rule('absolute', 'severe', '全网第一', '口碑很好'),
+  rule('absolute', 'severe', '销量第一', '销量领先'),
+  rule('absolute', 'severe', '排名第一', '排名靠前'),
+  rule('absolute', 'severe', '第一品牌', '知名品牌'),
+  rule('absolute', 'severe', 'NO.1', '领先'),
+  rule('absolute', 'severe', 'TOP1', '热门'),
+  rule('absolute', 'severe', '国家级', '专业级'),
+  rule('absolute', 'severe', '世界级', '高水准'),
+  rule('absolute', 'severe', '绝对', '非常'),
+  rule('absolute', 'severe', '唯一', '少有的'),
+  rule('absolute', 'severe', '顶级', '高品质'),
+  rule('absolute', 'severe', '极致', '出色'),
+  rule('absolute', 'severe', '万能', '多用途'),
+  rule('absolute', 'severe', '100%', ''),
+  rule('absolute', 'warning', '独家', '特别'),
+  rule('absolute', 'warning', '首个', '新推出的'),
+  rule('absolute', 'warning', '王牌', '招牌'),
+  // 普通商品不能宣传治疗作用
+  rule('medical', 'severe', '治疗', '护理'),
+  rule('medical', 'severe', '治愈', '改善'),
+  rule('medical', 'severe', '根治', '改善'),
+  rule('medical', 'severe', '药到病除', ''),
+  rule('medical', 'severe', '疗效', '效果'),
+  rule('medical', 'severe', '处方', '配方'),
+  rule('medical', 'severe', '抗癌', ''),
+  rule('medical', 'severe', '防癌', ''),
+  rule('medical', 'severe', '降血压', ''),
+  rule('medical', 'severe', '降血糖', ''),
+  rule('medical', 'severe', '消炎', '舒缓'),
+  rule('medical', 'warning', '排毒', '净化'),
+  rule('medical', 'warning', '杀菌', '清洁'),
+  rule('medical', 'warning', '祛痘', '改善痘痘肌'),
+  rule('medical', 'warning', '减肥', '身材管理'),
+  // 引导到站外交易或联系
+  rule('redirect', 'severe', '微信', '私信'),
+  rule('redirect', 'severe', '威信', '私信'),
+  rule('redirect', 'severe', '薇信', '私信'),
+  rule('redirect', 'severe', 'vx', '私信'),
+  rule('redirect', 'severe', 'v信', '私信'),
+  rule('redirect', 'severe', 'wx', '私信'),
+  rule('redirect', 'severe', '加微', '私信'),
+  rule('redirect', 'severe', 'QQ', '私信'),
+  rule('redirect', 'severe', '二维码', ''),
+  rule('redirect', 'severe', '淘宝', '某宝'),
+  rule('redirect', 'severe', '拼多多', '某平台'),
+  rule('redirect', 'severe', '京东', '某东'),
+  rule('redirect', 'severe', '闲鱼', '某平台'),
+  rule('redirect', 'severe', '抖音', '某音'),
+  rule('redirect', 'warning', '链接', ''),
+  rule('redirect', 'warning', '加我', ''),
+];
+
+export function getComplianceRules(rules?: ComplianceRule[]): ComplianceRule[] {
+  return rules || DEFAULT_COMPLIANCE_RULES;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const ASCII_WORD_CHAR = /[A-Za-z0-9]/;
+
+// 英文和数字开头或结尾的词加上单词边界，避免 wx、QQ 等命中普通单词和链接中的字母；
+// 词后紧跟数字时仍算命中，如 vx123 这样的联系方式
+function toWordPattern(word: string): string {
+  const escaped = escapeRegExp(word);
+  const before = ASCII_WORD_CHAR.test(word[0]) ? '(?<![A-Za-z0-9])' : '';
+  const after = ASCII_WORD_CHAR.test(word[word.length - 1])
+    ? '(?![A-Za-z])'
+    : '';
+  return `${before}${escaped}${after}`;
+}
+
+// 找出文本中命中的违禁词，较长的词优先，命中的位置不重叠
+export function checkCompliance(
+  text: string,
+  rules: ComplianceRule[]
+): ComplianceHit[] {
+  const activeRules = rules.filter((item) => item.word.trim());
+  if (!text || activeRules.length === 0) return [];
+
+  const ruleByWord = new Map<string, ComplianceRule>();
+  activeRules.forEach((item) => {
+    ruleByWord.set(item.word.trim().toLowerCase(), item);
+  });
+  const words = [...ruleByWord.keys()].sort((a, b) => b.length - a.length);
+  const pattern = new RegExp(words.map(toWordPattern).join('|'), 'gi');
+
+  return [...text.matchAll(pattern)].map((match) => ({
+    rule: ruleByWord.get(match[0].toLowerCase())!,
+    text: match[0],
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+}
+
+export function checkGeneratedContent(
+  data: { title?: string; content: string },
+  rules: ComplianceRule[]
+): ComplianceReport {
+  return {
+    title: checkCompliance(data.title || '', rules),
+    content: checkCompliance(data.content, rules),
+  };
+}
+
+export function getReportHits(report: ComplianceReport): ComplianceHit[] {
+  return [...report.title, ...report.content];
+}
+
+export function hasSevereHits(report: ComplianceReport): boolean {
+  return getReportHits(report).some((hit) => hit.rule.severity === 'severe');
+}
+
+// 命中的规则，同一个词只列一次
+export function getDistinctRules(report: ComplianceReport): ComplianceRule[] {
+  const rules = new Map<string, ComplianceRule>();
+  getReportHits(report).forEach((hit) => {
+    rules.set(hit.rule.word.toLowerCase(), hit.rule);
+  });
+  return [...rules.values()];
+}
+
+export function formatReplacement(item: ComplianceRule): string {
+  return item.replacement ? `改为“${item.replacement}”` : '删除';
+}
+
+// 让AI改写掉命中的违禁词的指令，isDraft 为改写收集的草稿
+export function buildComplianceRewritePrompt(
+  report: ComplianceReport,
+  isDraft = false
+): string {
+  const lines = getDistinctRules(report).map(
+    (item) =>
+      `- “${item.word}”（${COMPLIANCE_CATEGORY_LABELS[item.category]}）：建议${formatReplacement(item)}`
+  );
+  return `${isDraft ? '当前草稿' : '上一版内容'}包含小红书可能限流的违禁词，请在保持主题、风格和长度基本不变的前提下改写，不要出现以下词语：
+${lines.join('\n')}
+
+也不要使用其他绝对化用语、医疗功效用语或引导到站外的说法。`;
+}
+
+// 规则导入导出文件的格式标识
+const RULES_EXPORT_FORMAT = 'xhs-ai-helper-compliance-rules';
+
+const CATEGORIES = Object.keys(
+  COMPLIANCE_CATEGORY_LABELS
+) as ComplianceCategory[];
+
+export function exportComplianceRules(rules: ComplianceRule[]): ExportFile {
+  return {
+    filename: 'xhs-ai-compliance-rules.json',
+    content: JSON.stringify(
+      { format: RULES_EXPORT_FORMAT, version: 1, rules },
+      null,
+      2
+    ),
+    mimeType: 'application/json',
+  };
+}
+
+// 支持本插件导出的 JSON，或每行一个词的文本（“词语=替换”），文本导入的词归入自定义
+export function parseComplianceRulesImport(text: string): ComplianceRule[] {
+  const trimmed = text.replace(/^\ufeff/, '').trim();
+  if (!trimmed) throw new Error('文件内容为空');
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    let data: { format?: string; rules?: Partial<ComplianceRule>[] };
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      throw new Error('文件不是有效的 JSON');
+    }
+    const items = Array.isArray(data)
+      ? (data as Partial<ComplianceRule>[])
+      : data?.format === RULES_EXPORT_FORMAT && Array.isArray(data.rules)
+        ? data.rules
+        : null;
+    if (!items) throw new Error('不是本插件导出的规则文件');
+
+    return items
+      .filter((item) => typeof item?.word === 'string' && item.word.trim())
+      .map((item) =>
+        rule(
+          item.category && CATEGORIES.includes(item.category)
+            ? item.category
+            : 'custom',
+          item.severity === 'warning' ? 'warning' : 'severe',
+          item.word!.trim(),
+          typeof item.replacement === 'string' ? item.replacement : ''
+        )
+      );
+  }
+
+  return trimmed
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'))
+    .map((line) => {
+      const [word, replacement = ''] = line.split(/\s*=\s*/);
+      return rule('custom', 'severe', word.trim(), replacement.trim());
+    })
+    .filter((item) => item.word);
+}
+
+// 导入的规则覆盖同一个词的已有规则
+export function mergeComplianceRules(
+  rules: ComplianceRule[],
+  imported: ComplianceRule[]
+): ComplianceRule[] {
+  const importedWords = new Set(
+    imported.map((item) => item.word.toLowerCase())
+  );
+  return [
+    ...rules.filter((item) => !importedWords.has(item.word.toLowerCase())),
+    ...imported,
+  ];
+}
@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import {
+  exportConversations,
+  parseConversationsImport,
+} from './conversationExport';
+import type { StoredConversation } from './conversationHistory';
+import type { ChatMessage } from './messageTypes';
+
+const createdAt = new Date('2025-09-01T08:00:00Z');
+const updatedAt = new Date('2025-09-02T08:00:00Z');
+
+function createConversation(messages: ChatMessage[]): StoredConversation {
+  return {
+    summary: {
+      id: 'conv-1',
+      msgSource: 'post',
+      title: '秋天穿搭',
+      messageCount: messages.length,
+      createdAt,
+      updatedAt,
+    },
+    messages,
+  };
+}
+
+function resultMessage(title: string, content: string): ChatMessage {
+  return {
+    id: `ai-${title}`,
+    type: 'result',
+    messageSource: 'post',
+    sender: 'assistant',
+    timestamp: updatedAt,
+    generatedPostData: { title, content },
+  };
+}
+
+// 去掉 BOM 后按行拆分，每行取最后两列（标题和内容）
+function csvCells(content: string): string[] {
+  return content
+    .replace(/^\ufeff/, '')
+    .split('\r\n')
+    .slice(1)
+    .map((row) => row.split(',').slice(-2).join(','));
+}
+
+describe('exportConversations csv', () => {
+  it('以 BOM 开头并带有表头', () => {
+    const { content, mimeType } = exportConversations(
+      [createConversation([resultMessage('标题', '内容')])],
+      'csv'
+    );
+    expect(mimeType).toBe('text/csv');
+    expect(content.startsWith('\ufeff会话,类型,模型,时间,标题,内容')).toBe(
+      true
+    );
+  });
+
+  it('给可能被当作公式的单元格加上单引号', () => {
+    const { content } = exportConversations(
+      [
+        createConversation([
+          resultMessage('=1+1', '@SUM(A1)'),
+          resultMessage('+86', '-折扣'),
+          resultMessage('\t标题', '正常内容'),
+        ]),
+      ],
+      'csv'
+    );
+    expect(csvCells(content)).toEqual([
+      "'=1+1,'@SUM(A1)",
+      "'+86,'-折扣",
+      "'\t标题,正常内容",
+    ]);
+  });
+
+  it('包含逗号、引号和换行的单元格用引号包起来', () => {
+    const { content } = exportConversations(
+      [createConversation([resultMessage('a,b', '他说"好"\n第二行')])],
+      'csv'
+    );
+    expect(content).toContain('"a,b","他说""好""\n第二行"');
+  });
+});
+
+describe('parseConversationsImport', () => {
+  const messages: ChatMessage[] = [
+    {
+      id: 'user-1',
+      type: 'user',
+      sender: 'user',
+      timestamp: createdAt,
+      userMessage: { content: '写一篇穿搭笔记' },
+    },
+    {
+      ...resultMessage('标题', '内容'),
+      revisions: [
+        {
+          generatedPostData: { title: '旧标题', content: '旧内容' },
+          timestamp: createdAt,
+        },
+      ],
+    },
+  ];
+
+  it('导入本插件导出的 JSON，恢复其中的日期', () => {
+    const { content } = exportConversations(
+      [createConversation(messages)],
+      'json'
+    );
+    const [conversation] = parseConversationsImport(content);
+    expect(conversation.id).toBe('conv-1');
+    expect(conversation.createdAt).toEqual(createdAt);
+    expect(conversation.updatedAt).toEqual(updatedAt);
+    expect(conversation.messages).toEqual(messages);
+    expect(conversation.messages[1].revisions![0].timestamp).toBeInstanceOf(
+      Date
+    );
+  });
+
+  it('旧版本导出的文件没有会话时间', () => {
+    const text = JSON.stringify({
+      format: 'xhs-ai-helper-conversations',
+      version: 1,
+      conversations: [{ id: 'conv-1', messages }],
+    });
+    const [conversation] = parseConversationsImport(text);
+    expect(conversation.createdAt).toBeUndefined();
+    expect(conversation.updatedAt).toBeUndefined();
+  });
+
+  it('跳过缺少 id 或消息的会话', () => {
+    const text = JSON.stringify({
+      format: 'xhs-ai-helper-conversations',
+      version: 1,
+      conversations: [
+        { id: 'conv-1', messages: [] },
+        { messages },
+        { id: 'conv-2', messages },
+      ],
+    });
+    expect(
+      parseConversationsImport(text).map((conversation) => conversation.id)
+    ).toEqual(['conv-2']);
+  });
+
+  it('文件无效时报错', () => {
+    expect(() => parseConversationsImport('not json')).toThrow(
+      '文件不是有效的 JSON'
+    );
+    expect(() =>
+      parseConversationsImport(JSON.stringify({ format: 'other' }))
+    ).toThrow('不是本插件导出的会话文件');
+    expect(() =>
+      parseConversationsImport(
+        JSON.stringify({
+          format: 'xhs-ai-helper-conversations',
+          version: 99,
+          conversations: [],
+        })
+      )
+    ).toThrow('请先更新插件');
+  });
+});
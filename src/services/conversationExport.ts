@@ -0,0 +1,235 @@
+import { PROVIDER_LABELS } from './aiConfigTypes';
+import {
+  SOURCE_LABELS,
+  type ImportedConversation,
+  type StoredConversation,
+} from './conversationHistory';
+import type { ChatMessage } from './messageTypes';
+
+export type ExportFormat = 'markdown' | 'json' | 'csv';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  markdown: 'Markdown',
+  json: 'JSON',
+  csv: 'CSV',
+};
+
+export interface ExportFile {
+  filename: string;
+  content: string;
+  mimeType: string;
+}
+
+// JSON 导出文件的格式标识，导入时据此识别
+const JSON_EXPORT_FORMAT = 'xhs-ai-helper-conversations';
+const JSON_EXPORT_VERSION = 1;
+
+interface ConversationsExport {
+  format: typeof JSON_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  conversations: ImportedConversation[];
+}
+
+export function exportConversations(
+  conversations: StoredConversation[],
+  format: ExportFormat
+): ExportFile {
+  const date = new Date().toISOString().slice(0, 10);
+  const basename =
+    conversations.length === 1
+      ? `xhs-ai-${conversations[0].summary.id}`
+      : `xhs-ai-history-${date}`;
+
+  switch (format) {
+    case 'markdown':
+      return {
+        filename: `${basename}.md`,
+        content: toMarkdown(conversations),
+        mimeType: 'text/markdown',
+      };
+    case 'json':
+      return {
+        filename: `${basename}.json`,
+        content: toJSON(conversations),
+        mimeType: 'application/json',
+      };
+    case 'csv':
+      return {
+        filename: `${basename}.csv`,
+        content: toCSV(conversations),
+        mimeType: 'text/csv',
+      };
+  }
+}
+
+// 在侧边栏中触发下载
+export function downloadExportFile(file: ExportFile): void {
+  const blob = new Blob([file.content], {
+    type: `${file.mimeType};charset=utf-8`,
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  link.click();
+  // 等下载开始后再释放
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// 解析 JSON 导出文件，恢复其中的日期字段
+export function parseConversationsImport(text: string): ImportedConversation[] {
+  let data: ConversationsExport;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('文件不是有效的 JSON');
+  }
+  if (
+    data?.format !== JSON_EXPORT_FORMAT ||
+    !Array.isArray(data.conversations)
+  ) {
+    throw new Error('不是本插件导出的会话文件');
+  }
+  if (data.version > JSON_EXPORT_VERSION) {
+    throw new Error('会话文件来自更新版本的插件，请先更新插件');
+  }
+
+  return data.conversations
+    .filter(
+      (conversation) =>
+        typeof conversation?.id === 'string' &&
+        Array.isArray(conversation.messages) &&
+        conversation.messages.length > 0
+    )
+    .map((conversation) => ({
+      id: conversation.id,
+      messages: conversation.messages.map(reviveMessage),
+      createdAt: reviveDate(conversation.createdAt),
+      updatedAt: reviveDate(conversation.updatedAt),
+    }));
+}
+
+// 旧版本导出的文件没有会话时间
+function reviveDate(value?: Date | string): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function reviveMessage(message: ChatMessage): ChatMessage {
+  return {
+    ...message,
+    timestamp: new Date(message.timestamp),
+    revisions: message.revisions?.map((revision) => ({
+      ...revision,
+      timestamp: new Date(revision.timestamp),
+    })),
+  };
+}
+
+function toJSON(conversations: StoredConversation[]): string {
+  const data: ConversationsExport = {
+    format: JSON_EXPORT_FORMAT,
+    version: JSON_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversations: conversations.map(({ summary, messages }) => ({
+      id: summary.id,
+      messages,
+      createdAt: summary.createdAt,
+      updatedAt: summary.updatedAt,
+    })),
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+// 每个会话一节：收集的页面内容（图片以 data URL 内嵌）和生成结果
+function toMarkdown(conversations: StoredConversation[]): string {
+  return conversations
+    .map(({ summary, messages }) => {
+      const lines = [
+        `# ${summary.title}`,
+        '',
+        `- 类型：${SOURCE_LABELS[summary.msgSource]}`,
+        `- 创建时间：${summary.createdAt.toLocaleString()}`,
+        `- 更新时间：${summary.updatedAt.toLocaleString()}`,
+      ];
+      if (summary.noteId) {
+        lines.push(`- 笔记 id：${summary.noteId}`);
+      }
+
+      const collected = messages.find(
+        (msg) => msg.collectedData
+      )?.collectedData;
+      if (collected) {
+        lines.push('', '## 页面内容', '');
+        if (collected.title) lines.push(`**${collected.title}**`, '');
+        if (collected.content) lines.push(collected.content, '');
+        collected.images.forEach((image, index) => {
+          lines.push(`![图片${index + 1}](${image})`, '');
+        });
+      }
+
+      getResultMessages(messages).forEach((msg, index) => {
+        const { title, content } = getGeneratedText(msg);
+        const provider = msg.provider
+          ? ` · ${PROVIDER_LABELS[msg.provider]}`
+          : '';
+        lines.push(
+          '',
+          `## 生成结果 ${index + 1}`,
+          '',
+          `_${msg.timestamp.toLocaleString()}${provider}_`,
+          ''
+        );
+        if (title) lines.push(`### ${title}`, '');
+        lines.push(content);
+      });
+
+      return lines.join('\n');
+    })
+    .join('\n\n---\n\n');
+}
+
+// 每条生成结果一行，方便在表格软件中审阅
+function toCSV(conversations: StoredConversation[]): string {
+  const rows = [['会话', '类型', '模型', '时间', '标题', '内容']];
+  conversations.forEach(({ summary, messages }) => {
+    getResultMessages(messages).forEach((msg) => {
+      const { title, content } = getGeneratedText(msg);
+      rows.push([
+        summary.title,
+        SOURCE_LABELS[msg.messageSource || 'post'],
+        msg.provider ? PROVIDER_LABELS[msg.provider] : '',
+        msg.timestamp.toLocaleString(),
+        title,
+        content,
+      ]);
+    });
+  });
+  // 加上 BOM，Excel 打开时才能正确识别中文
+  return `\ufeff${rows.map((row) => row.map(escapeCSV).join(',')).join('\r\n')}`;
+}
+
+function getResultMessages(messages: ChatMessage[]): ChatMessage[] {
+  return messages.filter(
+    (msg) =>
+      msg.type === 'result' &&
+      (msg.generatedPostData || msg.generatedCommentData)
+  );
+}
+
+function getGeneratedText(msg: ChatMessage): {
+  title: string;
+  content: string;
+} {
+  return msg.generatedPostData
+    ? msg.generatedPostData
+    : { title: '', content: msg.generatedCommentData?.content || '' };
+}
+
+// 以 = + - @（或制表符、回车）开头的单元格在 Excel / WPS 中会被当作公式执行，加上 ' 作为文本显示
+function escapeCSV(value: string): string {
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
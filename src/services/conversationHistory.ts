@@ -0,0 +1,308 @@
+import type { ChatMessage, MessageSource } from './messageTypes';
+
+// 历史会话列表中显示的信息，消息内容单独存放，打开列表时不用读取所有图片
+export interface ConversationSummary {
+  id: string;
+  // 会话对应的笔记 id（仅笔记详情页）
+  noteId?: string;
+  // 收集内容时页面的链接
+  url?: string;
+  msgSource: MessageSource;
+  title: string;
+  thumbnail?: string;
+  messageCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ConversationMessages {
+  id: string;
+  messages: ChatMessage[];
+}
+
+// 导入的会话，带有导出时的创建和更新时间
+export interface ImportedConversation extends ConversationMessages {
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// 导出时使用的完整会话
+export interface StoredConversation {
+  summary: ConversationSummary;
+  messages: ChatMessage[];
+}
+
+export const SOURCE_LABELS: Record<MessageSource, string> = {
+  post: '文案',
+  comment: '评论',
+  reply: '回复',
+};
+
+const DB_NAME = 'xhsAiHelper';
+const DB_VERSION = 2;
+const SUMMARY_STORE = 'conversations';
+const MESSAGE_STORE = 'conversationMessages';
+const NOTE_ID_INDEX = 'noteId';
+const URL_INDEX = 'url';
+
+// 最多保留的会话数量，超出时删除最久没有更新的
+const MAX_CONVERSATIONS = 100;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const summaryStore = db.objectStoreNames.contains(SUMMARY_STORE)
+          ? request.transaction!.objectStore(SUMMARY_STORE)
+          : db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+        // 按笔记查找会话，重新收集同一篇笔记时可以打开之前的会话
+        [NOTE_ID_INDEX, URL_INDEX].forEach((index) => {
+          if (!summaryStore.indexNames.contains(index)) {
+            summaryStore.createIndex(index, index);
+          }
+        });
+        if (!db.objectStoreNames.contains(MESSAGE_STORE)) {
+          db.createObjectStore(MESSAGE_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// 会话以第一条消息（通常是收集的页面内容）的 id 作为 id，欢迎消息除外。
+// 每次收集是一个新会话，同一篇笔记可以有多个会话，通过 noteId / url 索引找到
+export function getConversationId(messages: ChatMessage[]): string | undefined {
+  return messages.find((msg) => msg.type !== 'introduction')?.id;
+}
+
+// 只保存用户开始过的会话：收集过页面内容或发送过消息
+function shouldSaveConversation(messages: ChatMessage[]): boolean {
+  return messages.some(
+    (msg) => msg.type === 'collected' || msg.type === 'user'
+  );
+}
+
+function summarizeConversation(
+  id: string,
+  messages: ChatMessage[],
+  createdAt: Date,
+  updatedAt: Date
+): ConversationSummary {
+  const collected = messages.find((msg) => msg.collectedData)?.collectedData;
+  const firstUserMessage = messages.find((msg) => msg.userMessage)?.userMessage;
+  const firstResult = messages.find((msg) => msg.type === 'result');
+  const title =
+    collected?.title ||
+    firstResult?.generatedPostData?.title ||
+    collected?.content ||
+    firstUserMessage?.content ||
+    '未命名会话';
+
+  return {
+    id,
+    noteId: collected?.noteId,
+    url: collected?.url,
+    msgSource:
+      messages.find((msg) => msg.messageSource)?.messageSource || 'post',
+    title: title.slice(0, 50),
+    thumbnail: collected?.images[0] || firstUserMessage?.images?.[0],
+    messageCount: messages.filter((msg) => msg.type !== 'introduction').length,
+    createdAt,
+    updatedAt,
+  };
+}
+
+export async function saveConversation(messages: ChatMessage[]): Promise<void> {
+  const id = getConversationId(messages);
+  if (!id || !shouldSaveConversation(messages)) return;
+  if (await isUnstartedDuplicate(id, messages)) return;
+  await writeConversation(id, messages, (existing) => ({
+    createdAt: existing?.createdAt,
+    updatedAt: new Date(),
+  }));
+}
+
+// 写入会话和摘要，createdAt 未指定时沿用已保存的或第一条消息的时间
+async function writeConversation(
+  id: string,
+  messages: ChatMessage[],
+  getTimes: (existing?: ConversationSummary) => {
+    createdAt?: Date;
+    updatedAt: Date;
+  }
+): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(
+    [SUMMARY_STORE, MESSAGE_STORE],
+    'readwrite'
+  );
+  const summaryStore = transaction.objectStore(SUMMARY_STORE);
+  const existing = await requestResult<ConversationSummary | undefined>(
+    summaryStore.get(id)
+  );
+  const storedMessages = messages.filter((msg) => msg.type !== 'introduction');
+  const { createdAt, updatedAt } = getTimes(existing);
+  summaryStore.put(
+    summarizeConversation(
+      id,
+      storedMessages,
+      createdAt || storedMessages[0].timestamp,
+      updatedAt
+    )
+  );
+  transaction
+    .objectStore(MESSAGE_STORE)
+    .put({ id, messages: storedMessages } satisfies ConversationMessages);
+  await transactionDone(transaction);
+
+  if (!existing) {
+    await pruneConversations();
+  }
+}
+
+// 重新收集已有会话的笔记但还没有开始对话时不保存，用户通常会打开之前的会话继续编辑，
+// 避免同一篇笔记堆积只有页面内容的重复会话
+async function isUnstartedDuplicate(
+  id: string,
+  messages: ChatMessage[]
+): Promise<boolean> {
+  if (messages.some((msg) => msg.type === 'user')) return false;
+  const db = await openDatabase();
+  const stored = await requestResult(
+    db.transaction(SUMMARY_STORE).objectStore(SUMMARY_STORE).getKey(id)
+  );
+  if (stored !== undefined) return false;
+  const collected = messages.find((msg) => msg.collectedData)?.collectedData;
+  return (await findNoteConversations(collected || {}, id)).length > 0;
+}
+
+// 查找同一篇笔记的会话：有笔记 id 时按笔记 id，否则按页面链接，按最近更新时间倒序
+export async function findNoteConversations(
+  note: { noteId?: string; url?: string },
+  excludeId?: string
+): Promise<ConversationSummary[]> {
+  const [index, key] = note.noteId
+    ? [NOTE_ID_INDEX, note.noteId]
+    : [URL_INDEX, note.url];
+  if (!key) return [];
+
+  const db = await openDatabase();
+  const summaries = await requestResult<ConversationSummary[]>(
+    db
+      .transaction(SUMMARY_STORE)
+      .objectStore(SUMMARY_STORE)
+      .index(index)
+      .getAll(key)
+  );
+  return summaries
+    .filter((summary) => summary.id !== excludeId)
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+}
+
+// 按最近更新时间倒序列出会话
+export async function listConversations(): Promise<ConversationSummary[]> {
+  const db = await openDatabase();
+  const summaries = await requestResult<ConversationSummary[]>(
+    db.transaction(SUMMARY_STORE).objectStore(SUMMARY_STORE).getAll()
+  );
+  return summaries.sort(
+    (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()
+  );
+}
+
+export async function loadConversation(
+  id: string
+): Promise<ChatMessage[] | undefined> {
+  const db = await openDatabase();
+  const record = await requestResult<ConversationMessages | undefined>(
+    db.transaction(MESSAGE_STORE).objectStore(MESSAGE_STORE).get(id)
+  );
+  return record?.messages;
+}
+
+// 读取完整会话用于导出，不传 ids 时读取全部
+export async function loadConversationsForExport(
+  ids?: string[]
+): Promise<StoredConversation[]> {
+  const summaries = (await listConversations()).filter(
+    (summary) => !ids || ids.includes(summary.id)
+  );
+  const conversations: StoredConversation[] = [];
+  for (const summary of summaries) {
+    const messages = await loadConversation(summary.id);
+    if (messages) {
+      conversations.push({ summary, messages });
+    }
+  }
+  return conversations;
+}
+
+// 导入会话，id 相同的会话会被覆盖。导入的会话都要保留，不做重复会话的检查，
+// 时间使用导出时的时间（旧的导出文件没有时间，使用消息的时间），返回实际导入的数量
+export async function importConversations(
+  conversations: ImportedConversation[]
+): Promise<number> {
+  let count = 0;
+  for (const conversation of conversations) {
+    const { messages } = conversation;
+    const id = getConversationId(messages);
+    if (!id || !shouldSaveConversation(messages)) continue;
+    const timestamps = messages.map((msg) => msg.timestamp.getTime());
+    await writeConversation(id, messages, () => ({
+      createdAt: conversation.createdAt || new Date(Math.min(...timestamps)),
+      updatedAt: conversation.updatedAt || new Date(Math.max(...timestamps)),
+    }));
+    count++;
+  }
+  return count;
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  await deleteConversations([id]);
+}
+
+async function deleteConversations(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const db = await openDatabase();
+  const transaction = db.transaction(
+    [SUMMARY_STORE, MESSAGE_STORE],
+    'readwrite'
+  );
+  ids.forEach((id) => {
+    transaction.objectStore(SUMMARY_STORE).delete(id);
+    transaction.objectStore(MESSAGE_STORE).delete(id);
+  });
+  await transactionDone(transaction);
+}
+
+async function pruneConversations(): Promise<void> {
+  const summaries = await listConversations();
+  await deleteConversations(
+    summaries.slice(MAX_CONVERSATIONS).map((summary) => summary.id)
+  );
+}
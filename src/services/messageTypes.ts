@@ -1,10 +1,16 @@
+import type { AIProvider } from '../components/SettingsPanel';
+import type { TokenUsage } from './AIService';
+import type { WordingEdit } from './wordingPreferences';
+import type { VariantCounts } from './outputTasks';
+
 // Message Types according to design spec
 export type MessageType =
   | 'user'
   | 'ai'
   | 'result'
   | 'collected'
-  | 'introduction';
+  | 'introduction'
+  | 'cancelled';
 export type MessageSource = 'comment' | 'reply' | 'post';
 
 export interface ChatMessage {
@@ -21,14 +27,80 @@ export interface ChatMessage {
   // For AI generated content
   generatedPostData?: AiGeneratedPostContent;
   generatedCommentData?: AiGeneratedCommentContent;
+  // 一次生成的多个候选，generatedPostData / generatedCommentData 为当前选中的组合
+  generatedVariants?: GeneratedVariants;
+  // 实际生成该结果的大模型
+  provider?: AIProvider;
+  // 本次生成的 token 用量和估算费用（元）
+  usage?: TokenUsage;
+  cost?: number;
   // For user messages with images
   userMessage?: UserMessage;
+  // 用户编辑前的各个版本，当前的生成内容为最新版本
+  revisions?: GeneratedRevision[];
+  // 应用到页面成功后，用于撤销本次应用
+  undoSnapshotId?: string;
+  isUndone?: boolean;
 }
 
 export interface CollectedContent {
+  // 内容所在的笔记 id（仅笔记详情页），用于发现页面已切换到其他笔记
+  noteId?: string;
+  // 收集内容时页面的链接，没有笔记 id 时（如发布页）用于找到同一篇草稿的会话
+  url?: string;
   images: string[];
+  // 视频笔记的 images 为视频封面和按时间顺序截取的画面
+  mediaType?: 'image' | 'video';
   title: string;
   content: string;
+  // 笔记作者、话题、互动数据等信息（仅笔记详情页）
+  metadata?: NoteMetadata;
+  // 笔记下已经加载出来的评论，用于避免生成重复的评论
+  topComments?: CollectedComment[];
+  // 回复评论时要回复的评论
+  replyTarget?: ReplyTarget;
+  // 用户之前对同类生成结果的修改（生成时附加，不来自页面）
+  preferredWordings?: WordingEdit[];
+}
+
+export interface NoteMetadata {
+  author: string;
+  // 笔记中的话题标签，不含 #
+  tags: string[];
+  likeCount: number;
+  collectCount: number;
+  commentCount: number;
+  // 页面显示的发布时间，如 "2024-05-01"、"3天前"
+  publishTime: string;
+  // 发布地点，如 "上海"
+  location?: string;
+}
+
+export interface CommentInfo {
+  author: string;
+  content: string;
+}
+
+export interface CollectedComment extends CommentInfo {
+  likeCount: number;
+  // 是否被置顶
+  isPinned: boolean;
+  // 是否是笔记作者发的评论
+  isAuthor: boolean;
+}
+
+export interface ReplyTarget extends CommentInfo {
+  // 页面上评论元素的标记，用于应用回复时定位该评论
+  commentId: string;
+  // 回复的是楼中楼时，所在楼层的主评论
+  parentComment?: CommentInfo;
+}
+
+// 页面上当前打开的笔记，关闭笔记弹窗后 noteId 为空
+export interface PageNote {
+  noteId?: string;
+  url: string;
+  timestamp: string;
 }
 
 export interface AiGeneratedPostContent {
@@ -39,16 +111,34 @@ export interface AiGeneratedCommentContent {
   content: string;
 }
 
+// 多候选生成的结果，评论和回复没有标题候选
+export interface GeneratedVariants {
+  titles: string[];
+  contents: string[];
+}
+
+// 生成结果被编辑前的一个版本
+export interface GeneratedRevision {
+  generatedPostData?: AiGeneratedPostContent;
+  generatedCommentData?: AiGeneratedCommentContent;
+  timestamp: Date;
+}
+
 export interface UserMessage {
   content: string;
   images?: string[];
   msgSource?: MessageSource;
+  // 设置时一次生成多个候选
+  variantCounts?: VariantCounts;
 }
 
 // Define action types
 export type MessageAction =
   | { type: 'add'; data: ChatMessage }
   | { type: 'clearAdd'; data: ChatMessage }
+  | { type: 'update'; id: string; data: Partial<ChatMessage> }
+  // 打开历史会话，替换当前的所有消息
+  | { type: 'restore'; data: ChatMessage[] }
   | { type: 'clear' };
 
 export const initialMessages: ChatMessage[] = [
@@ -73,6 +163,14 @@ export function messagesReducer(
     case 'clearAdd': {
       return [action.data];
     }
+    case 'update': {
+      return messages.map((message) =>
+        message.id === action.id ? { ...message, ...action.data } : message
+      );
+    }
+    case 'restore': {
+      return action.data;
+    }
     case 'clear': {
       return [];
     }
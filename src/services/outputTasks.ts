@@ -0,0 +1,241 @@
+import type { MessageSource } from './messageTypes';
+
+// 输出字段的 JSON Schema（各大模型都支持的子集）
+export interface OutputFieldSchema {
+  type: 'string' | 'array';
+  description: string;
+  maxLength?: number;
+  items?: { type: 'string'; maxLength?: number };
+  maxItems?: number;
+}
+
+export interface OutputSchema {
+  type: 'object';
+  properties: Record<string, OutputFieldSchema>;
+  required: string[];
+  additionalProperties: false;
+}
+
+// 一种结构化输出任务，各大模型的适配器据此生成自己的 tool / schema 格式
+export interface OutputTask {
+  // 工具名称，同时用作 schema 名称
+  name: string;
+  description: string;
+  schema: OutputSchema;
+  systemPrompt: string;
+  // JSON Mode（不支持 tool 和 schema 的接口）下附加的输出说明
+  jsonInstructions: string;
+  validate: (output: unknown) => boolean;
+}
+
+// 一次生成多个候选时，标题（仅笔记）和正文各自的候选数量
+export interface VariantCounts {
+  titles?: number;
+  contents: number;
+}
+
+export const DEFAULT_VARIANT_COUNTS: Record<MessageSource, VariantCounts> = {
+  post: { titles: 3, contents: 2 },
+  comment: { contents: 3 },
+  reply: { contents: 3 },
+};
+
+// 多候选模式下，每个字段对应的候选数组字段
+const VARIANT_FIELDS: Record<
+  string,
+  { key: keyof VariantCounts; label: string }
+> = {
+  title: { key: 'titles', label: '标题' },
+  content: { key: 'contents', label: '内容' },
+};
+
+// 各字段的长度限制，schema 和提示词共用
+const POST_TITLE_MAX_LENGTH = 20;
+const POST_CONTENT_MAX_LENGTH = 1000;
+const COMMENT_MAX_LENGTH = 100;
+const REPLY_MAX_LENGTH = 100;
+
+// 定义一个输出任务，输出说明和校验函数由 schema 自动生成
+function defineOutputTask(
+  task: Omit<OutputTask, 'jsonInstructions' | 'validate'>
+): OutputTask {
+  return {
+    ...task,
+    jsonInstructions: buildJsonInstructions(task.schema),
+    validate: (output) => validateOutput(task.schema, output),
+  };
+}
+
+export const POST_TASK = defineOutputTask({
+  name: 'generate_xhs_content',
+  description: '生成小红书内容，包括标题和内容',
+  schema: {
+    type: 'object',
+    properties: {
+      title: {
+        type: 'string',
+        maxLength: POST_TITLE_MAX_LENGTH,
+        description: `优化后的标题，要吸引人、有点击欲望，符合小红书风格，不超过${POST_TITLE_MAX_LENGTH}个字符`,
+      },
+      content: {
+        type: 'string',
+        maxLength: POST_CONTENT_MAX_LENGTH,
+        description: `优化后的完整内容，可包含表情符号、话题标签、换行等，不超过${POST_CONTENT_MAX_LENGTH}个字符`,
+      },
+    },
+    required: ['title', 'content'],
+    additionalProperties: false,
+  },
+  systemPrompt: `你是一个专业的小红书内容创作专家，擅长创作吸引人的标题和内容。
+
+请根据用户提供的图片和内容以及要求，生成符合小红书风格的标题和正文内容。
+
+要求：
+1. 标题要吸引人，有点击欲望，不超过${POST_TITLE_MAX_LENGTH}个字符
+2. 内容要有价值，可读性强，符合小红书用户喜好
+3. 适当使用表情符号和话题标签（#标签#）
+4. 语言风格要亲切自然，贴近用户`,
+});
+
+export const COMMENT_TASK = defineOutputTask({
+  name: 'generate_xhs_comment',
+  description: '生成小红书笔记评论',
+  schema: {
+    type: 'object',
+    properties: {
+      content: {
+        type: 'string',
+        maxLength: COMMENT_MAX_LENGTH,
+        description: `生成的评论内容，要有趣、有价值，可包含表情符号，不超过${COMMENT_MAX_LENGTH}个字符`,
+      },
+    },
+    required: ['content'],
+    additionalProperties: false,
+  },
+  systemPrompt: `你是一个专业的小红书评论助手，擅长生成有趣、有价值的评论内容。
+
+请根据用户提供的笔记图片和内容以及要求，生成一条简短的评论。
+
+要求：
+1. 评论要真诚自然，符合小红书社区氛围
+2. 适当使用表情符号，让评论更生动
+3. 字数控制在${COMMENT_MAX_LENGTH}字以内
+4. 如果提供了笔记信息，根据它调整语气：互动少的小博主笔记可以多些鼓励和真诚交流，热门笔记要有亮点才能被看到；带有地点或话题时可以自然地结合
+5. 如果是视频笔记，可以结合视频画面提到视频里发生的内容`,
+});
+
+export const REPLY_TASK = defineOutputTask({
+  name: 'generate_xhs_reply',
+  description: '生成对小红书评论的回复',
+  schema: {
+    type: 'object',
+    properties: {
+      content: {
+        type: 'string',
+        maxLength: REPLY_MAX_LENGTH,
+        description: `对该条评论的回复内容，直接回应评论者，可包含表情符号，不超过${REPLY_MAX_LENGTH}个字符`,
+      },
+    },
+    required: ['content'],
+    additionalProperties: false,
+  },
+  systemPrompt: `你是一个专业的小红书评论回复助手，擅长接住评论者的话题，给出自然、有温度的回复。
+
+请根据用户提供的笔记图片和内容、要回复的评论（以及它所在楼层的主评论）和要求，生成一条回复。
+
+要求：
+1. 回复要针对这条评论本身，回应评论者的观点、问题或情绪，不要泛泛地评价笔记
+2. 语气真诚友好，符合小红书社区氛围，适当使用表情符号
+3. 不要在开头重复"回复@某某"，页面会自动加上
+4. 字数控制在${REPLY_MAX_LENGTH}字以内`,
+});
+
+// 每种生成类型对应的输出任务
+export const OUTPUT_TASKS: Record<MessageSource, OutputTask> = {
+  post: POST_TASK,
+  comment: COMMENT_TASK,
+  reply: REPLY_TASK,
+};
+
+// 传入 variants 时返回一次生成多个候选的任务，传入 systemPrompt 时替换默认的系统提示词
+export function getOutputTask(
+  msgSource: MessageSource = 'post',
+  variants?: VariantCounts,
+  systemPrompt?: string
+): OutputTask {
+  const defaultTask = OUTPUT_TASKS[msgSource];
+  const task = systemPrompt ? { ...defaultTask, systemPrompt } : defaultTask;
+  return variants ? defineVariantsTask(task, variants) : task;
+}
+
+// 把任务的每个字段换成同样限制的候选数组，如 title → titles
+function defineVariantsTask(
+  task: OutputTask,
+  variants: VariantCounts
+): OutputTask {
+  const properties: Record<string, OutputFieldSchema> = {};
+  const counts: string[] = [];
+  Object.entries(task.schema.properties).forEach(([key, field]) => {
+    const { key: variantKey, label } = VARIANT_FIELDS[key];
+    const count = variants[variantKey] || 1;
+    properties[variantKey] = {
+      type: 'array',
+      description: `${count}个风格、角度各不相同的候选，每个候选为${field.description}`,
+      items: { type: 'string', maxLength: field.maxLength },
+      maxItems: count,
+    };
+    counts.push(`${count}个${label}`);
+  });
+
+  return defineOutputTask({
+    name: `${task.name}_variants`,
+    description: `${task.description}，一次给出多个候选`,
+    schema: {
+      type: 'object',
+      properties,
+      required: task.schema.required.map((key) => VARIANT_FIELDS[key].key),
+      additionalProperties: false,
+    },
+    systemPrompt: `${task.systemPrompt}
+
+本次请一次生成多个候选供用户挑选（${counts.join('、')}），候选之间的切入角度、语气和结构要有明显差别，不要只替换个别词语`,
+  });
+}
+
+// 根据 schema 生成 JSON Mode 的输出说明（JSON Mode 要求提示词中明确说明输出JSON）
+function buildJsonInstructions(schema: OutputSchema): string {
+  const fields = Object.entries(schema.properties).map(([key, field]) => {
+    const type = field.type === 'array' ? '字符串数组' : '字符串';
+    return `- ${key}（${type}）：${field.description}`;
+  });
+  return `输出要求：严格按照JSON格式输出，包含以下字段：\n${fields.join('\n')}`;
+}
+
+// 校验输出的字段类型和长度、数量限制是否符合 schema，所有模型的输出使用同样的限制
+// （部分接口只能用 JSON Mode，不会按 schema 限制输出）
+function validateOutput(schema: OutputSchema, output: unknown): boolean {
+  if (typeof output !== 'object' || output === null) {
+    return false;
+  }
+  const record = output as Record<string, unknown>;
+  return schema.required.every((key) => {
+    const value = record[key];
+    const field = schema.properties[key];
+    if (field.type === 'array') {
+      return (
+        Array.isArray(value) &&
+        (field.maxItems === undefined || value.length <= field.maxItems) &&
+        value.every((item) => isValidString(item, field.items?.maxLength))
+      );
+    }
+    return isValidString(value, field.maxLength);
+  });
+}
+
+// 按字符计算长度，表情符号算一个字符
+function isValidString(value: unknown, maxLength?: number): boolean {
+  return (
+    typeof value === 'string' &&
+    (maxLength === undefined || [...value].length <= maxLength)
+  );
+}
@@ -0,0 +1,70 @@
+import type { AIConfig } from '../components/SettingsPanel';
+import type { MessageSource } from './messageTypes';
+
+// 账号人设：每次生成都会附加到系统提示词中
+export interface Persona {
+  id: string;
+  name: string;
+  // 语气和风格描述，如常用的表情、固定的结尾
+  voice: string;
+  // 参考的示例笔记
+  exampleNotes: string;
+  mustUseWords: string[];
+  neverUseWords: string[];
+  // 笔记文案默认带上的话题，不含 #
+  hashtags: string[];
+}
+
+export function createPersona(): Persona {
+  return {
+    id: `persona-${Date.now()}`,
+    name: '',
+    voice: '',
+    exampleNotes: '',
+    mustUseWords: [],
+    neverUseWords: [],
+    hashtags: [],
+  };
+}
+
+export function getActivePersona(config: AIConfig): Persona | undefined {
+  return config.personas?.find(
+    (persona) => persona.id === config.activePersonaId
+  );
+}
+
+// 把逗号、顿号、空格分隔的文字拆分为词语列表
+export function parseWordList(text: string): string[] {
+  return text
+    .split(/[,，、\s]+/)
+    .map((word) => word.replace(/^#/, '').trim())
+    .filter(Boolean);
+}
+
+// 将人设整理为系统提示词的一部分，话题标签只用于笔记文案
+export function formatPersonaPrompt(
+  persona: Persona,
+  msgSource: MessageSource
+): string {
+  const lines = [`请以「${persona.name || '当前账号'}」的账号人设进行创作：`];
+  if (persona.voice.trim()) {
+    lines.push(`- 语气和风格：${persona.voice.trim()}`);
+  }
+  if (persona.mustUseWords.length > 0) {
+    lines.push(`- 必须自然地用到这些词语：${persona.mustUseWords.join('、')}`);
+  }
+  if (persona.neverUseWords.length > 0) {
+    lines.push(`- 禁止出现这些词语：${persona.neverUseWords.join('、')}`);
+  }
+  if (msgSource === 'post' && persona.hashtags.length > 0) {
+    lines.push(
+      `- 正文末尾带上这些话题标签：${persona.hashtags.map((tag) => `#${tag}`).join(' ')}`
+    );
+  }
+  if (persona.exampleNotes.trim()) {
+    lines.push(
+      `- 参考以下示例笔记的风格（只学习风格，不要照抄内容）：\n${persona.exampleNotes.trim()}`
+    );
+  }
+  return lines.join('\n');
+}
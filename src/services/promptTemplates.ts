@@ -0,0 +1,223 @@
+import type {
+  ChatMessage,
+  CollectedContent,
+  MessageSource,
+} from './messageTypes';
+
+// 收集内容卡片中的快捷指令
+export interface QuickCommand {
+  id: string;
+  icon: string;
+  label: string;
+  // 发送给大模型的指令，可以包含 {{title}} 等变量
+  command: string;
+  // 按钮颜色，留空时按顺序使用 COMMAND_COLORS
+  color?: string;
+}
+
+// 用户自定义的模板，未设置的部分使用默认值
+export interface PromptTemplates {
+  // 每种生成类型的快捷指令（reply 为回复评论时使用的指令）
+  quickCommands?: Partial<Record<MessageSource, QuickCommand[]>>;
+  // 每种生成类型的系统提示词，可以包含变量
+  systemPrompts?: Partial<Record<MessageSource, string>>;
+}
+
+const COMMAND_COLORS = [
+  'text-xhs-red border-xhs-red hover:bg-xhs-red-light',
+  'text-green-600 border-green-600 hover:bg-green-50',
+  'text-purple-600 border-purple-600 hover:bg-purple-50',
+  'text-blue-600 border-blue-600 hover:bg-blue-50',
+  'text-orange-600 border-orange-600 hover:bg-orange-50',
+  'text-teal-600 border-teal-600 hover:bg-teal-50',
+];
+
+export const DEFAULT_QUICK_COMMANDS: Record<MessageSource, QuickCommand[]> = {
+  // Common commands for Xiaohongshu content creation
+  post: [
+    {
+      id: 'optimize-notes',
+      icon: '🔥',
+      label: '优化笔记',
+      command:
+        '请基于当前的标题和内容进行全面的优化，包括优化标题让它更吸引人、丰富内容细节、添加合适的表情符号和话题标签，让整篇笔记更符合小红书的风格和传播效果',
+      color: 'text-xhs-red border-xhs-red hover:bg-xhs-red-light',
+    },
+    {
+      id: 'enhance-content',
+      icon: '📝',
+      label: '丰富内容',
+      command:
+        '请帮我丰富这个内容，增加更多细节描述、使用心得和实用建议，让内容更有价值',
+      color: 'text-green-600 border-green-600 hover:bg-green-50',
+    },
+    {
+      id: 'improve-title',
+      icon: '✨',
+      label: '优化标题',
+      command:
+        '请帮我优化这个标题，让它更吸引人、更有点击欲望，符合小红书的风格',
+      color: 'text-purple-600 border-purple-600 hover:bg-purple-50',
+    },
+    {
+      id: 'add-hashtags',
+      icon: '#️⃣',
+      label: '生成话题标签',
+      command:
+        '请为这篇内容生成5-8个合适的小红书话题标签，包括热门标签和精准标签',
+      color: 'text-blue-600 border-blue-600 hover:bg-blue-50',
+    },
+    {
+      id: 'add-emoji',
+      icon: '😊',
+      label: '添加表情符号',
+      command: '请在内容中适当添加表情符号，让文案更生动活泼，符合小红书的风格',
+      color: 'text-orange-600 border-orange-600 hover:bg-orange-50',
+    },
+    {
+      id: 'seo-optimize',
+      icon: '🔍',
+      label: 'SEO优化',
+      command: '请优化这个内容的关键词分布，提高在小红书搜索中的曝光率',
+      color: 'text-teal-600 border-teal-600 hover:bg-teal-50',
+    },
+  ],
+  // Common commands for comment generation
+  comment: [
+    {
+      id: 'generate-comment',
+      icon: '💬',
+      label: '生成评论',
+      command: '请基于这篇笔记的图片和内容生成一条评论',
+      color: 'text-xhs-red border-xhs-red hover:bg-xhs-red-light',
+    },
+    {
+      id: 'ask-question',
+      icon: '❓',
+      label: '提问互动',
+      command: '请基于这篇笔记的图片和内容生成提问式的评论，促进与博主的互动',
+      color: 'text-blue-600 border-blue-600 hover:bg-blue-50',
+    },
+    {
+      id: 'praise-comment',
+      icon: '👏',
+      label: '夸赞评论',
+      command: '请基于这篇笔记的图片和内容生成一条夸赞评论',
+      color: 'text-purple-600 border-purple-600 hover:bg-purple-50',
+    },
+    {
+      id: 'emoji-comment',
+      icon: '😊',
+      label: '表情评论',
+      command: '请基于这篇笔记的图片和内容生成一条带有很多表情的评论',
+      color: 'text-teal-600 border-teal-600 hover:bg-teal-50',
+    },
+    {
+      id: 'unique-comment',
+      icon: '✨',
+      label: '与众不同',
+      command:
+        '请参考笔记下已有的评论，生成一条别人都没说过的评论，换一个新的角度或细节，不要重复已有评论的观点和句式',
+      color: 'text-orange-600 border-orange-600 hover:bg-orange-50',
+    },
+  ],
+  // 回复评论的快捷指令
+  reply: [
+    {
+      id: 'generate-reply',
+      icon: '↩️',
+      label: '生成回复',
+      command: '请针对这条评论生成一条回复',
+      color: 'text-xhs-red border-xhs-red hover:bg-xhs-red-light',
+    },
+    {
+      id: 'thank-reply',
+      icon: '🙏',
+      label: '感谢回复',
+      command: '请生成一条真诚感谢评论者支持的回复',
+      color: 'text-purple-600 border-purple-600 hover:bg-purple-50',
+    },
+    {
+      id: 'answer-reply',
+      icon: '💡',
+      label: '解答问题',
+      command: '请结合笔记内容，解答评论者提出的问题或疑惑',
+      color: 'text-blue-600 border-blue-600 hover:bg-blue-50',
+    },
+    {
+      id: 'humor-reply',
+      icon: '😄',
+      label: '幽默回复',
+      command: '请生成一条轻松幽默、带有表情的回复，拉近和评论者的距离',
+      color: 'text-teal-600 border-teal-600 hover:bg-teal-50',
+    },
+  ],
+};
+
+// 模板中可以使用的变量，取值来自收集的页面内容
+export const TEMPLATE_VARIABLES: { name: string; label: string }[] = [
+  { name: 'title', label: '笔记标题' },
+  { name: 'content', label: '笔记正文' },
+  { name: 'imageCount', label: '图片数量' },
+  { name: 'author', label: '笔记作者' },
+  { name: 'tags', label: '笔记话题' },
+  { name: 'commentAuthor', label: '要回复的评论者' },
+  { name: 'commentContent', label: '要回复的评论' },
+];
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+export function getQuickCommands(
+  templates: PromptTemplates | undefined,
+  msgSource: MessageSource
+): QuickCommand[] {
+  return (
+    templates?.quickCommands?.[msgSource] || DEFAULT_QUICK_COMMANDS[msgSource]
+  );
+}
+
+export function getCommandColor(command: QuickCommand, index: number): string {
+  return command.color || COMMAND_COLORS[index % COMMAND_COLORS.length];
+}
+
+function getTemplateValues(
+  collectedData?: CollectedContent
+): Record<string, string> {
+  if (!collectedData) return {};
+  return {
+    title: collectedData.title,
+    content: collectedData.content,
+    imageCount: String(collectedData.images.length),
+    author: collectedData.metadata?.author || '',
+    tags: (collectedData.metadata?.tags || [])
+      .map((tag) => `#${tag}`)
+      .join(' '),
+    commentAuthor: collectedData.replyTarget?.author || '',
+    commentContent: collectedData.replyTarget?.content || '',
+  };
+}
+
+// 替换模板中的变量，未知的变量保持原样
+export function renderTemplate(
+  template: string,
+  collectedData?: CollectedContent
+): string {
+  const values = getTemplateValues(collectedData);
+  return template.replace(VARIABLE_PATTERN, (match, name: string) =>
+    name in values ? values[name] : match
+  );
+}
+
+// 用户自定义的系统提示词，变量取会话中收集的页面内容；未设置时返回 undefined
+export function resolveSystemPrompt(
+  templates: PromptTemplates | undefined,
+  msgSource: MessageSource,
+  messages: ChatMessage[]
+): string | undefined {
+  const template = templates?.systemPrompts?.[msgSource]?.trim();
+  if (!template) return undefined;
+  const collectedData = messages.find(
+    (msg) => msg.collectedData
+  )?.collectedData;
+  return renderTemplate(template, collectedData);
+}
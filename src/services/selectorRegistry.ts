@@ -0,0 +1,320 @@
+// 小红书页面元素的选择器注册表，content script 和设置面板共用
+// 小红书改版后更新这里的默认选择器，并递增版本号
+export const SELECTOR_REGISTRY_VERSION = 1;
+
+// publish: 创作中心发布页；note: 笔记详情页；comment: 在单条评论元素内查找
+export type SelectorScope = 'publish' | 'note' | 'comment';
+
+export interface SelectorField {
+  label: string;
+  scope: SelectorScope;
+  // 按优先级排列的候选选择器，依次尝试直到找到元素
+  selectors: string[];
+  // 页面上可能本来就没有该元素（如图文笔记没有视频），诊断时不算失败
+  optional?: boolean;
+}
+
+const selectorFields = {
+  postTitleBar: {
+    label: '发布页标题栏',
+    scope: 'publish',
+    selectors: ['.post-page .title.setting'],
+  },
+  postImages: {
+    label: '发布页图片',
+    scope: 'publish',
+    selectors: ['.post-page .img-preview-area img.preview'],
+    optional: true,
+  },
+  postTitleInput: {
+    label: '发布页标题输入框',
+    scope: 'publish',
+    selectors: ['.post-page .title-container input', '.title-container input'],
+  },
+  postEditor: {
+    label: '发布页正文编辑器',
+    scope: 'publish',
+    selectors: ['.post-page .editor-container', '.editor-container'],
+  },
+  postEditorInput: {
+    label: '发布页正文输入区域',
+    scope: 'publish',
+    selectors: [
+      '.post-page .editor-container [contenteditable="true"]',
+      '.post-page [data-slate-editor="true"]',
+    ],
+  },
+  topicSuggestion: {
+    label: '话题联想列表',
+    scope: 'publish',
+    selectors: [
+      '#creator-editor-topic-container .item',
+      '.publish-topic-container .item',
+    ],
+    // 只在正文中输入 # 后出现
+    optional: true,
+  },
+  noteEngageBar: {
+    label: '笔记互动栏',
+    scope: 'note',
+    selectors: [
+      '.note-container .interaction-container .engage-bar-container .left-icon-area',
+      '.engage-bar-container .left-icon-area',
+    ],
+  },
+  noteSlider: {
+    label: '笔记图片轮播',
+    scope: 'note',
+    selectors: [
+      '.note-container .media-container .slider-container',
+      '.media-container .slider-container',
+    ],
+    optional: true,
+  },
+  noteVideo: {
+    label: '笔记视频',
+    scope: 'note',
+    selectors: [
+      '.note-container .media-container video',
+      '.media-container video',
+    ],
+    optional: true,
+  },
+  noteTitle: {
+    label: '笔记标题',
+    scope: 'note',
+    selectors: ['#detail-title', '.note-content .title'],
+  },
+  noteDesc: {
+    label: '笔记正文',
+    scope: 'note',
+    selectors: ['#detail-desc', '.note-content .desc'],
+  },
+  noteAuthor: {
+    label: '笔记作者',
+    scope: 'note',
+    selectors: [
+      '.note-container .author-wrapper .username',
+      '.note-container .author .username',
+    ],
+  },
+  noteTags: {
+    label: '笔记话题标签',
+    scope: 'note',
+    selectors: [
+      '.note-container #detail-desc a.tag',
+      '.note-container .desc a.tag',
+    ],
+    optional: true,
+  },
+  noteLikeCount: {
+    label: '点赞数',
+    scope: 'note',
+    selectors: ['.note-container .engage-bar .like-wrapper .count'],
+  },
+  noteCollectCount: {
+    label: '收藏数',
+    scope: 'note',
+    selectors: ['.note-container .engage-bar .collect-wrapper .count'],
+  },
+  noteCommentCount: {
+    label: '评论数',
+    scope: 'note',
+    selectors: ['.note-container .engage-bar .chat-wrapper .count'],
+  },
+  noteDate: {
+    label: '发布时间和地点',
+    scope: 'note',
+    selectors: ['.note-container .bottom-container .date'],
+  },
+  commentInput: {
+    label: '评论输入框',
+    scope: 'note',
+    selectors: [
+      '#content-textarea',
+      '.interaction-container .engage-bar-container .input-box .content-edit p',
+      '.engage-bar-container .content-edit p',
+    ],
+  },
+  commentReplyTarget: {
+    label: '评论框回复对象',
+    scope: 'note',
+    selectors: [
+      '.engage-bar-container .input-box .reply-content',
+      '.engage-bar-container .reply-to',
+    ],
+    // 只有点击评论的回复按钮后才会出现
+    optional: true,
+  },
+  topComment: {
+    label: '一级评论',
+    scope: 'note',
+    selectors: ['.comments-container .parent-comment > .comment-item'],
+    optional: true,
+  },
+  commentItem: {
+    label: '评论',
+    scope: 'note',
+    selectors: ['.comments-container .comment-item'],
+    optional: true,
+  },
+  commentActions: {
+    label: '评论操作栏',
+    scope: 'note',
+    selectors: ['.comments-container .comment-item .interactions'],
+    optional: true,
+  },
+  commentThread: {
+    label: '评论楼层',
+    scope: 'note',
+    selectors: ['.comments-container .parent-comment'],
+    optional: true,
+  },
+  commentAuthor: {
+    label: '评论作者',
+    scope: 'comment',
+    selectors: ['.author .name'],
+  },
+  commentContent: {
+    label: '评论内容',
+    scope: 'comment',
+    selectors: ['.content .note-text', '.content'],
+  },
+  commentLikeCount: {
+    label: '评论点赞数',
+    scope: 'comment',
+    selectors: ['.interactions .like .count'],
+  },
+  commentReplyButton: {
+    label: '评论回复按钮',
+    scope: 'comment',
+    selectors: ['.interactions .reply'],
+  },
+  commentTags: {
+    label: '评论标签（置顶、作者）',
+    scope: 'comment',
+    selectors: ['.author .tag, .top-tag, .labels'],
+    optional: true,
+  },
+} satisfies Record<string, SelectorField>;
+
+export type SelectorKey = keyof typeof selectorFields;
+
+export const SELECTOR_FIELDS: Record<SelectorKey, SelectorField> =
+  selectorFields;
+
+// 用户在设置中添加的覆盖选择器，优先于默认选择器尝试
+export type SelectorOverrides = Partial<Record<SelectorKey, string>>;
+
+interface StoredSelectorOverrides {
+  // 添加覆盖选择器时注册表的版本
+  version: number;
+  selectors: SelectorOverrides;
+}
+
+// 单个字段的诊断结果
+export interface SelectorCheck {
+  key: SelectorKey;
+  label: string;
+  found: boolean;
+  optional: boolean;
+  // 找到元素时使用的选择器
+  matchedSelector?: string;
+  // 尝试过的选择器数量
+  tried: number;
+}
+
+export interface SelectorDiagnostics {
+  version: number;
+  page: 'publish' | 'note';
+  url: string;
+  checks: SelectorCheck[];
+}
+
+const OVERRIDES_STORAGE_KEY = 'selectorOverrides';
+
+// 覆盖选择器在前，默认选择器在后，去掉重复项
+export function getSelectors(
+  key: SelectorKey,
+  overrides: SelectorOverrides = {}
+): string[] {
+  const override = overrides[key]?.trim();
+  const selectors = SELECTOR_FIELDS[key].selectors;
+  return override
+    ? [override, ...selectors.filter((selector) => selector !== override)]
+    : selectors;
+}
+
+export function describeMissingSelector(key: SelectorKey, tried: number) {
+  return `${SELECTOR_FIELDS[key].label}未找到：已尝试 ${tried} 个选择器`;
+}
+
+export async function loadSelectorOverrides(): Promise<{
+  overrides: SelectorOverrides;
+  // 覆盖选择器是否是在旧版本的注册表上添加的
+  isOutdated: boolean;
+}> {
+  try {
+    const result = await chrome.storage.local.get(OVERRIDES_STORAGE_KEY);
+    const stored = result[OVERRIDES_STORAGE_KEY] as
+      StoredSelectorOverrides | undefined;
+    return {
+      overrides: stored?.selectors || {},
+      isOutdated: !!stored && stored.version < SELECTOR_REGISTRY_VERSION,
+    };
+  } catch (error) {
+    console.error('Failed to load selector overrides:', error);
+    return { overrides: {}, isOutdated: false };
+  }
+}
+
+export async function saveSelectorOverrides(
+  overrides: SelectorOverrides
+): Promise<void> {
+  const selectors = Object.fromEntries(
+    Object.entries(overrides)
+      .map(([key, selector]) => [key, selector?.trim()])
+      .filter(([, selector]) => selector)
+  ) as SelectorOverrides;
+  const stored: StoredSelectorOverrides = {
+    version: SELECTOR_REGISTRY_VERSION,
+    selectors,
+  };
+  await chrome.storage.local.set({ [OVERRIDES_STORAGE_KEY]: stored });
+}
+
+// 覆盖选择器发生变化时通知，返回取消监听的函数
+export function onSelectorOverridesChanged(
+  callback: (overrides: SelectorOverrides) => void
+): () => void {
+  const listener = (changes: {
+    [key: string]: chrome.storage.StorageChange;
+  }) => {
+    if (changes[OVERRIDES_STORAGE_KEY]) {
+      const stored = changes[OVERRIDES_STORAGE_KEY].newValue as
+        StoredSelectorOverrides | undefined;
+      callback(stored?.selectors || {});
+    }
+  };
+  chrome.storage.local.onChanged.addListener(listener);
+  return () => chrome.storage.local.onChanged.removeListener(listener);
+}
+
+// 检查选择器语法是否有效
+export function isValidSelector(selector: string): boolean {
+  try {
+    document.createDocumentFragment().querySelector(selector);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// 是否存在语法无效的覆盖选择器
+export function hasInvalidSelectorOverride(
+  overrides: SelectorOverrides
+): boolean {
+  return Object.values(overrides).some(
+    (selector) => !!selector?.trim() && !isValidSelector(selector)
+  );
+}
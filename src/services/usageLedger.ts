@@ -0,0 +1,219 @@
+import type { AIProvider } from '../components/SettingsPanel';
+import type { TokenUsage } from './AIService';
+
+// 模型价格，单位：元 / 百万 token
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// 某天某个大模型的累计用量
+export interface UsageEntry {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  // 按记录时的价格表估算，单位：元
+  cost: number;
+}
+
+// 按日期（YYYY-MM-DD）和大模型记录的用量账本
+export type UsageLedger = Record<
+  string,
+  Partial<Record<AIProvider, UsageEntry>>
+>;
+
+export interface UsageSettings {
+  // 按模型名称设置的价格，未列出的模型不计算费用
+  prices: Record<string, ModelPrice>;
+  // 每月预算（元），不设置则不提醒
+  monthlyBudget?: number;
+}
+
+const LEDGER_STORAGE_KEY = 'usageLedger';
+const SETTINGS_STORAGE_KEY = 'usageSettings';
+
+// 账本最多保留的天数
+const LEDGER_RETENTION_DAYS = 400;
+
+// 用量达到预算的该比例时开始提醒
+export const BUDGET_WARNING_RATIO = 0.8;
+
+// 默认价格参考各家官网标价，美元价格按 1:7.2 折算，可在用量面板中修改
+export const defaultModelPrices: Record<string, ModelPrice> = {
+  'gpt-5': { input: 9, output: 72 },
+  'gpt-5-mini': { input: 1.8, output: 14.4 },
+  'gpt-5-nano': { input: 0.36, output: 2.88 },
+  'gpt-4.1': { input: 14.4, output: 57.6 },
+  'gpt-4.1-mini': { input: 2.88, output: 11.52 },
+  'claude-sonnet-4-20250514': { input: 21.6, output: 108 },
+  'claude-opus-4-1-20250805': { input: 108, output: 540 },
+  'claude-3-5-haiku-20241022': { input: 5.76, output: 28.8 },
+  'gemini-2.5-flash': { input: 2.16, output: 18 },
+  'gemini-2.5-pro': { input: 9, output: 72 },
+  'gemini-2.5-flash-lite': { input: 0.72, output: 2.88 },
+  'qwen-vl-plus': { input: 1.5, output: 4.5 },
+  'qwen-vl-max': { input: 3, output: 9 },
+  'kimi-k2-0905-preview': { input: 4, output: 16 },
+  'kimi-k2-turbo-preview': { input: 8, output: 58 },
+  'kimi-latest': { input: 2, output: 10 },
+  'moonshot-v1-32k-vision-preview': { input: 24, output: 24 },
+};
+
+export const defaultUsageSettings: UsageSettings = {
+  prices: defaultModelPrices,
+};
+
+// 本地时区的日期，作为账本的 key
+export function getDateKey(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// 按价格表计算费用，模型没有价格时返回 undefined
+export function calculateCost(
+  usage: TokenUsage,
+  price?: ModelPrice
+): number | undefined {
+  if (!price) return undefined;
+  return (
+    (usage.inputTokens * price.input + usage.outputTokens * price.output) /
+    1_000_000
+  );
+}
+
+export function formatCost(cost: number): string {
+  return `¥${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+export async function loadUsageLedger(): Promise<UsageLedger> {
+  try {
+    const result = await chrome.storage.local.get(LEDGER_STORAGE_KEY);
+    return (result[LEDGER_STORAGE_KEY] as UsageLedger) || {};
+  } catch (error) {
+    console.error('Failed to load usage ledger:', error);
+    return {};
+  }
+}
+
+export async function clearUsageLedger(): Promise<void> {
+  await chrome.storage.local.remove(LEDGER_STORAGE_KEY);
+}
+
+export async function loadUsageSettings(): Promise<UsageSettings> {
+  try {
+    const result = await chrome.storage.local.get(SETTINGS_STORAGE_KEY);
+    const stored = result[SETTINGS_STORAGE_KEY] as
+      Partial<UsageSettings> | undefined;
+    return {
+      ...defaultUsageSettings,
+      ...stored,
+      prices: { ...defaultModelPrices, ...stored?.prices },
+    };
+  } catch (error) {
+    console.error('Failed to load usage settings:', error);
+    return defaultUsageSettings;
+  }
+}
+
+export async function saveUsageSettings(
+  settings: UsageSettings
+): Promise<void> {
+  await chrome.storage.local.set({ [SETTINGS_STORAGE_KEY]: settings });
+}
+
+// 记账是先读后写，同时完成的几次生成要依次写入，避免后写的覆盖先写的
+let pendingRecord: Promise<unknown> = Promise.resolve();
+
+// 记录一次生成的用量，返回按当前价格估算的费用
+export function recordUsage(
+  provider: AIProvider,
+  model: string,
+  usage: TokenUsage
+): Promise<number | undefined> {
+  const result = pendingRecord.then(() =>
+    addUsageToLedger(provider, model, usage)
+  );
+  // 上一次记账失败不影响后面的记账
+  pendingRecord = result.catch(() => undefined);
+  return result;
+}
+
+async function addUsageToLedger(
+  provider: AIProvider,
+  model: string,
+  usage: TokenUsage
+): Promise<number | undefined> {
+  const [ledger, settings] = await Promise.all([
+    loadUsageLedger(),
+    loadUsageSettings(),
+  ]);
+  const cost = calculateCost(usage, settings.prices[model]);
+
+  const dateKey = getDateKey();
+  const day = ledger[dateKey] || {};
+  const entry = day[provider] || {
+    requests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cost: 0,
+  };
+  day[provider] = {
+    requests: entry.requests + 1,
+    inputTokens: entry.inputTokens + usage.inputTokens,
+    outputTokens: entry.outputTokens + usage.outputTokens,
+    cost: entry.cost + (cost || 0),
+  };
+  ledger[dateKey] = day;
+
+  await chrome.storage.local.set({
+    [LEDGER_STORAGE_KEY]: pruneLedger(ledger),
+  });
+  return cost;
+}
+
+// 汇总日期 key 以 prefix 开头（如 "2025-09"）的用量
+export function summarizeUsage(
+  ledger: UsageLedger,
+  prefix: string = ''
+): Partial<Record<AIProvider, UsageEntry>> {
+  const summary: Partial<Record<AIProvider, UsageEntry>> = {};
+  Object.entries(ledger).forEach(([dateKey, day]) => {
+    if (!dateKey.startsWith(prefix)) return;
+    (Object.entries(day) as [AIProvider, UsageEntry][]).forEach(
+      ([provider, entry]) => {
+        summary[provider] = addUsageEntries(summary[provider], entry);
+      }
+    );
+  });
+  return summary;
+}
+
+// 合计多个大模型的用量
+export function totalUsage(
+  entries: Partial<Record<AIProvider, UsageEntry>>
+): UsageEntry {
+  return Object.values(entries).reduce<UsageEntry>(
+    (total, entry) => addUsageEntries(total, entry),
+    { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 }
+  );
+}
+
+function addUsageEntries(a: UsageEntry | undefined, b: UsageEntry): UsageEntry {
+  return {
+    requests: (a?.requests || 0) + b.requests,
+    inputTokens: (a?.inputTokens || 0) + b.inputTokens,
+    outputTokens: (a?.outputTokens || 0) + b.outputTokens,
+    cost: (a?.cost || 0) + b.cost,
+  };
+}
+
+// 删除超过保留天数的记录
+function pruneLedger(ledger: UsageLedger): UsageLedger {
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - LEDGER_RETENTION_DAYS);
+  const cutoffKey = getDateKey(cutoff);
+  return Object.fromEntries(
+    Object.entries(ledger).filter(([dateKey]) => dateKey >= cutoffKey)
+  );
+}
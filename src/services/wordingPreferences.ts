@@ -0,0 +1,79 @@
+import type { ChatMessage, MessageSource } from './messageTypes';
+
+// 用户对生成结果的一次修改，作为之后生成时参考的偏好措辞
+export interface WordingEdit {
+  msgSource: MessageSource;
+  field: 'title' | 'content';
+  original: string;
+  edited: string;
+  timestamp: string;
+}
+
+const STORAGE_KEY = 'wordingEdits';
+
+// 最多保存的修改记录数量
+const MAX_STORED_EDITS = 50;
+// 每次生成最多附带的修改记录数量，以及每段文字的最大长度，避免提示词过长
+const MAX_PROMPT_EDITS = 3;
+const MAX_PROMPT_TEXT_LENGTH = 300;
+
+export async function loadWordingEdits(): Promise<WordingEdit[]> {
+  try {
+    const result = await chrome.storage.local.get(STORAGE_KEY);
+    return (result[STORAGE_KEY] as WordingEdit[]) || [];
+  } catch (error) {
+    console.error('Failed to load wording edits:', error);
+    return [];
+  }
+}
+
+// 记录一次编辑中各字段的修改，内容没有变化的字段不记录
+export async function recordWordingEdits(
+  edits: Omit<WordingEdit, 'timestamp'>[]
+): Promise<void> {
+  const changed = edits.filter(
+    (edit) => edit.original.trim() !== edit.edited.trim()
+  );
+  if (changed.length === 0) return;
+
+  const timestamp = new Date().toISOString();
+  const stored = await loadWordingEdits();
+  stored.push(...changed.map((edit) => ({ ...edit, timestamp })));
+  await chrome.storage.local.set({
+    [STORAGE_KEY]: stored.slice(-MAX_STORED_EDITS),
+  });
+}
+
+// 把同类生成最近的修改记录附加到收集的内容上，随页面内容一起发给模型
+export async function attachPreferredWordings(
+  data: ChatMessage[],
+  msgSource: MessageSource
+): Promise<ChatMessage[]> {
+  const collectedIndex = data.findIndex((msg) => msg.collectedData);
+  if (collectedIndex === -1) return data;
+
+  const edits = (await loadWordingEdits())
+    .filter((edit) => edit.msgSource === msgSource)
+    .slice(-MAX_PROMPT_EDITS)
+    .map((edit) => ({
+      ...edit,
+      original: truncate(edit.original),
+      edited: truncate(edit.edited),
+    }));
+  if (edits.length === 0) return data;
+
+  return data.map((msg, index) =>
+    index === collectedIndex && msg.collectedData
+      ? {
+          ...msg,
+          collectedData: { ...msg.collectedData, preferredWordings: edits },
+        }
+      : msg
+  );
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_PROMPT_TEXT_LENGTH
+    ? `${text.slice(0, MAX_PROMPT_TEXT_LENGTH)}…`
+    : text;
+}
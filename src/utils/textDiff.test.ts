@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines } from './textDiff';
+
+describe('diffLines', () => {
+  it('相同的文本只有相同的行', () => {
+    expect(diffLines('第一行\n第二行', '第一行\n第二行')).toEqual([
+      { type: 'same', text: '第一行' },
+      { type: 'same', text: '第二行' },
+    ]);
+  });
+
+  it('修改的行表示为先删除再新增', () => {
+    expect(diffLines('标题\n旧内容\n结尾', '标题\n新内容\n结尾')).toEqual([
+      { type: 'same', text: '标题' },
+      { type: 'removed', text: '旧内容' },
+      { type: 'added', text: '新内容' },
+      { type: 'same', text: '结尾' },
+    ]);
+  });
+
+  it('保留最长的公共部分', () => {
+    expect(diffLines('a\nb\nc\nd', 'b\nc\ne')).toEqual([
+      { type: 'removed', text: 'a' },
+      { type: 'same', text: 'b' },
+      { type: 'same', text: 'c' },
+      { type: 'removed', text: 'd' },
+      { type: 'added', text: 'e' },
+    ]);
+  });
+
+  it('空文本没有行', () => {
+    expect(diffLines('', '')).toEqual([]);
+    expect(diffLines('', '新增\n两行')).toEqual([
+      { type: 'added', text: '新增' },
+      { type: 'added', text: '两行' },
+    ]);
+    expect(diffLines('删除', '')).toEqual([{ type: 'removed', text: '删除' }]);
+  });
+});
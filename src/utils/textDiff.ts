@@ -0,0 +1,55 @@
+/**
+ * 文本对比工具函数
+ * 按行对比两段文本，用于应用到页面前预览改动
+ */
+
+export interface DiffLine {
+  type: 'same' | 'removed' | 'added';
+  text: string;
+}
+
+/**
+ * 按行对比两段文本（基于最长公共子序列）
+ * @param before - 原文本
+ * @param after - 新文本
+ * @returns DiffLine[] - 按顺序排列的相同、删除和新增的行
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+
+  // lcs[i][j] 为 a[i..] 和 b[j..] 的最长公共子序列长度
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'removed', text: a[i++] });
+    } else {
+      result.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) {
+    result.push({ type: 'removed', text: a[i++] });
+  }
+  while (j < b.length) {
+    result.push({ type: 'added', text: b[j++] });
+  }
+  return result;
+};